@@ -0,0 +1,219 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * BSON type aliases as reported by MongoDB's `$type` operator
+ * @see https://www.mongodb.com/docs/manual/reference/bson-types/
+ */
+type BSONTypeAlias =
+  | "double"
+  | "string"
+  | "object"
+  | "array"
+  | "binData"
+  | "undefined"
+  | "objectId"
+  | "bool"
+  | "date"
+  | "null"
+  | "regex"
+  | "javascript"
+  | "symbol"
+  | "javascriptWithScope"
+  | "int"
+  | "timestamp"
+  | "long"
+  | "decimal"
+  | "minKey"
+  | "maxKey";
+
+/**
+ * Maps the `_bsontype` tag of `bson` package classes to BSON type aliases.
+ * Values are recognized by this tag so that the `bson` package (or the
+ * MongoDB driver) doesn't need to be installed.
+ */
+const BSON_CLASS_TYPES: Record<string, BSONTypeAlias> = {
+  Binary: "binData",
+  BSONRegExp: "regex",
+  BSONSymbol: "symbol",
+  DBRef: "object",
+  Decimal128: "decimal",
+  Double: "double",
+  Int32: "int",
+  Long: "long",
+  MaxKey: "maxKey",
+  MinKey: "minKey",
+  ObjectId: "objectId",
+  ObjectID: "objectId",
+  Symbol: "symbol",
+  Timestamp: "timestamp",
+};
+
+/** Numeric BSON types, all matched by the `number` alias */
+const NUMERIC_BSON_TYPES = new Set<string>([
+  "double",
+  "int",
+  "long",
+  "decimal",
+]);
+
+/** @internal */
+function bsonTypeOf(value: unknown): BSONTypeAlias {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+
+  switch (typeof value) {
+    case "boolean": {
+      return "bool";
+    }
+    case "string": {
+      return "string";
+    }
+    case "bigint": {
+      return "long";
+    }
+    case "number": {
+      // The Node.js driver stores integers that fit in 32 bits as `int`,
+      // and every other number as `double`.
+      return Number.isInteger(value) &&
+        value >= -2_147_483_648 &&
+        value <= 2_147_483_647
+        ? "int"
+        : "double";
+    }
+    case "function": {
+      return "javascript";
+    }
+  }
+
+  const tag = (value as any)._bsontype;
+  if (typeof tag === "string") {
+    if (tag === "Code") {
+      return (value as any).scope ? "javascriptWithScope" : "javascript";
+    }
+
+    const type = BSON_CLASS_TYPES[tag];
+    if (type) return type;
+  }
+
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+  if (value instanceof RegExp) return "regex";
+  if (ArrayBuffer.isView(value)) return "binData";
+
+  return "object";
+}
+
+/**
+ * Converts a numeric BSON value to a JS `number` or `bigint`, or returns
+ * `undefined` for non-numeric values. `long`s are kept as `bigint`s so no
+ * precision is lost when comparing them against bounds.
+ *
+ * @internal
+ */
+function bsonNumericValue(value: unknown): number | bigint | undefined {
+  const type = bsonTypeOf(value);
+  if (!NUMERIC_BSON_TYPES.has(type)) return undefined;
+
+  if (typeof value === "number" || typeof value === "bigint") return value;
+
+  const object = value as any;
+  switch (type) {
+    case "long": {
+      return typeof object.toBigInt === "function"
+        ? object.toBigInt()
+        : BigInt(String(object));
+    }
+    case "decimal": {
+      return Number(String(object));
+    }
+    default: {
+      // `Int32` and `Double` wrappers
+      return typeof object.valueOf === "function"
+        ? Number(object.valueOf())
+        : Number(object.value);
+    }
+  }
+}
+
+/**
+ * Compares two BSON values for equality the way MongoDB does: numbers are
+ * equal across numeric types, and documents are compared field by field in
+ * order.
+ *
+ * @internal
+ */
+function bsonEquals(a: unknown, b: unknown): boolean {
+  const typeA = bsonTypeOf(a);
+  const typeB = bsonTypeOf(b);
+
+  if (NUMERIC_BSON_TYPES.has(typeA) && NUMERIC_BSON_TYPES.has(typeB)) {
+    return bsonNumericValue(a) == bsonNumericValue(b);
+  }
+
+  if (typeA !== typeB) return false;
+
+  switch (typeA) {
+    case "null":
+    case "undefined":
+    case "minKey":
+    case "maxKey": {
+      return true;
+    }
+    case "bool":
+    case "string": {
+      return a === b;
+    }
+    case "date": {
+      return (a as Date).getTime() === (b as Date).getTime();
+    }
+    case "array": {
+      const arrayA = a as unknown[];
+      const arrayB = b as unknown[];
+      return (
+        arrayA.length === arrayB.length &&
+        arrayA.every((element, index) => bsonEquals(element, arrayB[index]))
+      );
+    }
+    case "object": {
+      const entriesA = Object.entries(a as object);
+      const entriesB = Object.entries(b as object);
+      return (
+        entriesA.length === entriesB.length &&
+        entriesA.every(
+          ([key, value], index) =>
+            entriesB[index]?.[0] === key &&
+            bsonEquals(value, entriesB[index]?.[1]),
+        )
+      );
+    }
+    case "binData": {
+      const bytesA = _bytes(a);
+      const bytesB = _bytes(b);
+      return (
+        bytesA.length === bytesB.length &&
+        bytesA.every((byte, index) => byte === bytesB[index])
+      );
+    }
+    default: {
+      // `objectId`, `regex`, `timestamp`, etc. all have a canonical string form
+      return _canonicalString(a) === _canonicalString(b);
+    }
+  }
+}
+
+/** @internal */
+function _bytes(value: any): Uint8Array {
+  if (value._bsontype === "Binary") return _bytes(value.buffer);
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+/** @internal */
+function _canonicalString(value: any): string {
+  if (typeof value.toHexString === "function") return value.toHexString();
+  if (value._bsontype === "BSONRegExp")
+    return `/${value.pattern}/${value.options}`;
+  return String(value);
+}
+
+export { bsonEquals, bsonNumericValue, bsonTypeOf, NUMERIC_BSON_TYPES };
+export type { BSONTypeAlias };
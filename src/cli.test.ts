@@ -0,0 +1,165 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { runCli } from "./cli.js";
+
+// Inside `node_modules`, so the module can import "zod"
+const TMP_ROOT = path.resolve("node_modules/.cache");
+
+const MODULE = `
+import z from "zod";
+
+export const users = z.object({ name: z.string() });
+export const orders = z.object({ total: z.number().min(0) });
+export const pageSize = 20;
+export const files = z.object({
+  data: z.instanceof(Uint8Array).meta({ bsonType: "binData" }),
+});
+`;
+
+/** @internal */
+function _output(spy: { mock: { calls: unknown[][] } }) {
+  return spy.mock.calls.map(([message]) => message).join("\n");
+}
+
+describe("runCli", () => {
+  let cwd: string;
+  let log: ReturnType<typeof vi.spyOn>;
+  let error: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    await mkdir(TMP_ROOT, { recursive: true });
+    cwd = await mkdtemp(path.join(TMP_ROOT, "zod-to-mongo-schema-cli-"));
+    await writeFile(path.join(cwd, "schemas.mjs"), MODULE);
+    log = vi.spyOn(console, "log").mockImplementation(() => {});
+    error = vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("writes the `$jsonSchema` of the named exports", async () => {
+    const code = await runCli(
+      ["schemas.mjs", "-e", "users", "-e", "orders", "-o", "out"],
+      cwd,
+    );
+
+    expect(code).toBe(0);
+    expect(_output(log)).toBe("Wrote out/users.json\nWrote out/orders.json");
+    expect(
+      JSON.parse(await readFile(path.join(cwd, "out/orders.json"), "utf8")),
+    ).toEqual({
+      type: "object",
+      properties: { _id: {}, total: { type: "number", minimum: 0 } },
+      required: ["total"],
+      additionalProperties: false,
+    });
+  });
+
+  it("writes mongosh scripts for every Zod export", async () => {
+    const code = await runCli(
+      ["schemas.mjs", "--out-dir", "out", "--format", "js", "--no-strict"],
+      cwd,
+    );
+
+    expect(code).toBe(0);
+    expect(_output(log)).toBe(
+      "Wrote out/files.js\nWrote out/orders.js\nWrote out/users.js",
+    );
+    expect(await readFile(path.join(cwd, "out/users.js"), "utf8")).toBe(
+      `// Generated by zod-to-mongo-schema. Do not edit.
+db.runCommand({
+  "collMod": "users",
+  "validator": {
+    "$jsonSchema": {
+      "type": "object",
+      "properties": {
+        "_id": {},
+        "name": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "name"
+      ],
+      "additionalProperties": false
+    }
+  },
+  "validationLevel": "strict",
+  "validationAction": "error"
+});
+`,
+    );
+  });
+
+  it("runs `collMod` on the collection mapped to an export", async () => {
+    const code = await runCli(
+      ["schemas.mjs", "-e", "users=people", "-o", "out", "-f", "js"],
+      cwd,
+    );
+
+    expect(code).toBe(0);
+    expect(_output(log)).toBe("Wrote out/users.js");
+    expect(await readFile(path.join(cwd, "out/users.js"), "utf8")).toContain(
+      '"collMod": "people",',
+    );
+    expect(
+      await runCli(["schemas.mjs", "-e", "users=", "-o", "out"], cwd),
+    ).toBe(1);
+    expect(_output(error)).toBe(
+      'error: Invalid `--export` "users=", expected <name> or <name>=<collection>.',
+    );
+  });
+
+  it("reports conversion errors with the export name", async () => {
+    const code = await runCli(["schemas.mjs", "-o", "out"], cwd);
+
+    expect(code).toBe(1);
+    expect(_output(error)).toMatch(
+      /^error: `files`: data: `bsonType` can only be used with `z\.unknown\(\)`/,
+    );
+  });
+
+  it("rejects missing and non-schema exports", async () => {
+    expect(await runCli(["schemas.mjs", "-e", "posts", "-o", "out"], cwd)).toBe(
+      1,
+    );
+    expect(
+      await runCli(["schemas.mjs", "-e", "pageSize", "-o", "out"], cwd),
+    ).toBe(1);
+    expect(_output(error)).toBe(
+      [
+        "error: `posts` is not exported from schemas.mjs.",
+        "error: `pageSize` exported from schemas.mjs is not a Zod schema.",
+      ].join("\n"),
+    );
+  });
+
+  it("fails with `--check` when files are missing or out of date", async () => {
+    const argv = ["schemas.mjs", "-e", "users", "-e", "orders", "-o", "out"];
+    await runCli(argv, cwd);
+    await writeFile(path.join(cwd, "out/users.json"), "{}\n");
+    await rm(path.join(cwd, "out/orders.json"));
+
+    expect(await runCli([...argv, "--check"], cwd)).toBe(1);
+    expect(_output(error)).toBe(
+      [
+        "Out of date: out/users.json",
+        "Missing: out/orders.json",
+        "Run without `--check` to update them.",
+      ].join("\n"),
+    );
+    expect(await readFile(path.join(cwd, "out/users.json"), "utf8")).toBe(
+      "{}\n",
+    );
+
+    await runCli(argv, cwd);
+    log.mockClear();
+    expect(await runCli([...argv, "--check"], cwd)).toBe(0);
+    expect(_output(log)).toBe("2 file(s) up to date.");
+  });
+});
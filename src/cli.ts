@@ -0,0 +1,233 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+
+import type * as z4 from "zod/v4/core";
+
+import { modifyCollectionCommand } from "./command.js";
+import zodToMongoSchema from "./index.js";
+
+const USAGE = `Usage: zod-to-mongo-schema <module> --out-dir <dir> [options]
+
+Converts the Zod schemas exported from a module to MongoDB validators, and
+writes one file per schema, named after its export.
+
+Options:
+  -o, --out-dir <dir>    Directory to write the files to
+  -e, --export <name>[=<collection>]
+                         Export to convert, can be repeated (default: every
+                         exported Zod schema). The collection defaults to the
+                         export's name
+  -f, --format <format>  "json" for the $jsonSchema, or "js" for a mongosh
+                         script running collMod on the export's collection
+                         (default: "json")
+      --strict           Use strict mode (default)
+      --no-strict        Use non-strict mode
+      --check            Don't write anything, and fail if the files are
+                         missing or out of date
+  -h, --help             Show this message`;
+
+/** @internal */
+function _isZodSchema(value: unknown): value is z4.$ZodType {
+  return typeof value === "object" && value !== null && "_zod" in value;
+}
+
+/**
+ * Imports the module, pointing to a TypeScript loader if Node.js can't import
+ * it on its own.
+ *
+ * @internal
+ */
+async function _importModule(file: string): Promise<Record<string, unknown>> {
+  try {
+    return await import(pathToFileURL(file).href);
+  } catch (error) {
+    if (
+      /\.[cm]?ts$/.test(file) &&
+      (error as { code?: string }).code === "ERR_UNKNOWN_FILE_EXTENSION"
+    ) {
+      throw new Error(
+        `Can't import ${file}. Use Node.js 22.18 or later to import TypeScript modules, or run with \`node --import tsx\`.`,
+        { cause: error },
+      );
+    }
+    throw error;
+  }
+}
+
+/** @internal */
+interface SelectedSchema {
+  name: string;
+  schema: z4.$ZodType;
+  /** The collection its `collMod` script runs on */
+  collection: string;
+}
+
+/**
+ * Picks the given exports of a module (as `name` or `name=collection`), or
+ * every exported Zod schema except the default export.
+ *
+ * @internal
+ */
+function _selectSchemas(
+  module: Record<string, unknown>,
+  exports: string[],
+  file: string,
+): SelectedSchema[] {
+  if (exports.length === 0) {
+    const schemas = Object.entries(module).filter(
+      (entry): entry is [string, z4.$ZodType] =>
+        entry[0] !== "default" && _isZodSchema(entry[1]),
+    );
+    if (schemas.length === 0) {
+      throw new Error(`${file} doesn't export any Zod schemas.`);
+    }
+    return schemas.map(([name, schema]) => ({
+      name,
+      schema,
+      collection: name,
+    }));
+  }
+
+  return exports.map((entry) => {
+    const [name = "", collection = name] = entry.split("=", 2);
+    if (!name || !collection) {
+      throw new Error(
+        `Invalid \`--export\` "${entry}", expected <name> or <name>=<collection>.`,
+      );
+    }
+    if (!(name in module)) {
+      throw new Error(`\`${name}\` is not exported from ${file}.`);
+    }
+    const schema = module[name];
+    if (!_isZodSchema(schema)) {
+      throw new Error(`\`${name}\` exported from ${file} is not a Zod schema.`);
+    }
+    return { name, schema, collection };
+  });
+}
+
+/** @internal */
+function _render(
+  { name, schema, collection }: SelectedSchema,
+  format: "json" | "js",
+  strict: boolean,
+): string {
+  try {
+    if (format === "json") {
+      const $jsonSchema = zodToMongoSchema(schema, { strict });
+      return `${JSON.stringify($jsonSchema, undefined, 2)}\n`;
+    }
+
+    const command = modifyCollectionCommand(collection, schema, { strict });
+    return [
+      "// Generated by zod-to-mongo-schema. Do not edit.",
+      `db.runCommand(${JSON.stringify(command, undefined, 2)});`,
+      "",
+    ].join("\n");
+  } catch (error) {
+    throw new Error(`\`${name}\`: ${(error as Error).message}`, {
+      cause: error,
+    });
+  }
+}
+
+/** @internal */
+async function _readFile(file: string): Promise<string | undefined> {
+  try {
+    return await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as { code?: string }).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Runs the `zod-to-mongo-schema` command with the given arguments, and
+ * resolves to its exit code. Output goes to `console.log` and errors to
+ * `console.error`.
+ *
+ * @param argv The command-line arguments, without the node and script paths.
+ * @param cwd The directory the module and output paths are relative to.
+ * @returns `0` on success, `1` on errors or stale files with `--check`.
+ */
+export async function runCli(
+  argv: string[],
+  cwd: string = process.cwd(),
+): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        "out-dir": { type: "string", short: "o" },
+        export: { type: "string", short: "e", multiple: true, default: [] },
+        format: { type: "string", short: "f", default: "json" },
+        strict: { type: "boolean" },
+        "no-strict": { type: "boolean" },
+        check: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+
+    if (values.help) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    const [modulePath, ...extra] = positionals;
+    if (!modulePath || extra.length > 0) {
+      throw new Error("Expected exactly one module to convert.");
+    }
+    if (!values["out-dir"]) {
+      throw new Error("Missing `--out-dir`.");
+    }
+    const { format } = values;
+    if (format !== "json" && format !== "js") {
+      throw new Error(`Unknown format "${format}", expected "json" or "js".`);
+    }
+    if (values.strict && values["no-strict"]) {
+      throw new Error("`--strict` and `--no-strict` can't be used together.");
+    }
+    const strict = !values["no-strict"];
+
+    const module = await _importModule(path.resolve(cwd, modulePath));
+    const schemas = _selectSchemas(module, values.export, modulePath);
+    const outputDirectory = path.resolve(cwd, values["out-dir"]);
+
+    const files = schemas.map((selected) => ({
+      file: path.join(outputDirectory, `${selected.name}.${format}`),
+      contents: _render(selected, format, strict),
+    }));
+
+    if (values.check) {
+      let stale = 0;
+      for (const { file, contents } of files) {
+        const current = await _readFile(file);
+        if (current === contents) continue;
+
+        stale++;
+        const status = current === undefined ? "Missing" : "Out of date";
+        console.error(`${status}: ${path.relative(cwd, file)}`);
+      }
+
+      if (stale > 0) {
+        console.error("Run without `--check` to update them.");
+        return 1;
+      }
+      console.log(`${files.length} file(s) up to date.`);
+      return 0;
+    }
+
+    await mkdir(outputDirectory, { recursive: true });
+    for (const { file, contents } of files) {
+      await writeFile(file, contents);
+      console.log(`Wrote ${path.relative(cwd, file)}`);
+    }
+    return 0;
+  } catch (error) {
+    console.error(`error: ${(error as Error).message}`);
+    return 1;
+  }
+}
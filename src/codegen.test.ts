@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import { mongoSchemaToZod } from "./codegen.js";
+import zodToMongoSchema from "./index.js";
+import * as helpers from "./schemas.js";
+
+/** Evaluates generated source, returning the exported schema */
+function evaluate(source: string): z.ZodType {
+  const body = source
+    .replaceAll(/^import .*$/gm, "")
+    .replace(/^export const \w+ =/m, "return");
+  const factory = new Function("z", ...Object.keys(helpers), body);
+  return factory(z, ...Object.values(helpers));
+}
+
+describe("mongoSchemaToZod", () => {
+  it("generates a module exporting the Zod schema", () => {
+    const source = mongoSchemaToZod(
+      {
+        bsonType: "object",
+        required: ["_id", "name", "age"],
+        properties: {
+          _id: { bsonType: "objectId" },
+          name: { bsonType: "string", minLength: 1, description: "Full name" },
+          age: { bsonType: "int", minimum: 0 },
+          email: {
+            bsonType: ["string", "null"],
+            pattern: String.raw`^\S+@\S+$`,
+          },
+          createdAt: { bsonType: "date" },
+          tags: { bsonType: "array", items: { bsonType: "string" } },
+        },
+        additionalProperties: false,
+      },
+      { name: "userSchema" },
+    );
+
+    expect(source).toBe(String.raw`import z from "zod";
+import { zObjectId } from "zod-to-mongo-schema";
+
+export const userSchema = z.object({
+  _id: zObjectId(),
+  name: z.string().min(1).describe("Full name"),
+  age: z.int32().min(0),
+  email: z.string().regex(/^\S+@\S+$/u).nullable().optional(),
+  createdAt: z.date().optional(),
+  tags: z.array(z.string()).optional(),
+});
+`);
+  });
+
+  it("round-trips schemas converted from Zod", () => {
+    const schema = z.object({
+      _id: helpers.zObjectId(),
+      owner: helpers.zObjectId().nullable(),
+      balance: helpers.zDecimal128(),
+      counter: z.bigint().min(0n),
+      ratio: z.float64(),
+      status: z.enum(["active", "closed"]).nullable(),
+      code: z
+        .string()
+        .length(3)
+        .regex(/^[a-z]+$/i),
+      point: z.tuple([z.number(), z.number()]),
+      labels: z.set(z.string()).max(5),
+      limits: z.record(z.string().regex(/^[a-z]+$/), z.int32()),
+      extra: z.looseObject({ note: z.string().optional() }),
+      event: z.discriminatedUnion("kind", [
+        z.object({ kind: z.literal("created"), at: z.date() }),
+        z.object({ kind: z.literal("deleted") }),
+      ]),
+    });
+    const mongoSchema = zodToMongoSchema(schema);
+
+    const generated = evaluate(mongoSchemaToZod(mongoSchema));
+
+    expect(zodToMongoSchema(generated)).toEqual(mongoSchema);
+  });
+
+  it("generates schemas that accept what the driver returns", () => {
+    const source = mongoSchemaToZod({
+      bsonType: "object",
+      required: ["emoji", "counter", "tags"],
+      properties: {
+        emoji: { bsonType: "string", pattern: String.raw`^\x{1F600}$` },
+        counter: { bsonType: "long", minimum: 0, exclusiveMinimum: true },
+        tags: {
+          bsonType: "array",
+          items: { bsonType: "string" },
+          uniqueItems: true,
+        },
+      },
+      additionalProperties: false,
+    });
+    const generated = evaluate(source);
+    const long = (value: bigint) => ({
+      _bsontype: "Long",
+      toString: () => String(value),
+    });
+
+    expect(source).toContain(
+      String.raw`emoji: z.string().regex(/^\u{1F600}$/u),`,
+    );
+    expect(source).toContain(
+      "// - tags: `uniqueItems` is only checked by MongoDB, since `z.set()` rejects arrays.",
+    );
+    expect(
+      generated.safeParse({ emoji: "😀", counter: long(1n), tags: ["a"] })
+        .success,
+    ).toBe(true);
+    expect(
+      generated.safeParse({ emoji: "😀", counter: long(0n), tags: [] }).error
+        ?.issues,
+    ).toMatchObject([{ path: ["counter"], message: "Expected a long > 0" }]);
+  });
+
+  it("leaves out the `_id` allowed in root objects", () => {
+    const mongoSchema = zodToMongoSchema(z.object({ name: z.string() }));
+
+    expect(mongoSchemaToZod(mongoSchema)).toBe(`import z from "zod";
+
+export const schema = z.object({
+  name: z.string(),
+});
+`);
+    expect(
+      mongoSchemaToZod(zodToMongoSchema(z.record(z.string(), z.number()))),
+    ).toContain("export const schema = z.record(z.string(), z.number());");
+    expect(
+      mongoSchemaToZod(
+        zodToMongoSchema(z.object({ _id: z.unknown().optional() })),
+      ),
+    ).toContain("_id: z.unknown().optional(),");
+  });
+
+  it("accepts validators and generates BSON types without helpers", () => {
+    const source = mongoSchemaToZod(
+      {
+        $jsonSchema: {
+          bsonType: "object",
+          properties: { _id: { bsonType: "objectId" } },
+        },
+      },
+      { bsonHelpers: false },
+    );
+
+    expect(source).toBe(`import z from "zod";
+
+export const schema = z.looseObject({
+  _id: z.unknown().meta({ bsonType: "objectId" }).optional(),
+});
+`);
+  });
+
+  it("lists keywords without a Zod equivalent", () => {
+    const source = mongoSchemaToZod({
+      bsonType: "object",
+      minProperties: 1,
+      properties: {
+        code: { bsonType: "string", pattern: "a++" },
+        value: { oneOf: [{ bsonType: "int" }, { bsonType: "long" }] },
+        other: { not: { bsonType: "null" } },
+      },
+    });
+
+    expect(source).toContain(`// Not converted:
+// - \`minProperties\` has no Zod equivalent.
+// - code: \`pattern\` /a++/ isn't a valid JavaScript regex.
+// - value: \`oneOf\` became \`z.union()\`, which also accepts values matching more than one option.
+// - other: \`not\` has no Zod equivalent.
+export const schema = z.looseObject({`);
+  });
+});
@@ -0,0 +1,693 @@
+import { formatSchemaPath } from "./errors.js";
+import { isAllowedId } from "./id.js";
+import { fromPcrePattern } from "./pattern.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * Options for generating Zod source code from a MongoDB JSON Schema.
+ */
+export interface MongoSchemaToZodOptions {
+  /**
+   * The name of the exported schema.
+   *
+   * @default "schema"
+   */
+  name?: string;
+
+  /**
+   * Whether BSON types like `objectId` use the BSON helpers (e.g.
+   * `zObjectId()`). When `false`, they use
+   * `z.unknown().meta({ bsonType: "objectId" })` instead.
+   *
+   * @default true
+   */
+  bsonHelpers?: boolean;
+}
+
+/** @internal */
+interface GeneratorContext {
+  bsonHelpers: boolean;
+  /** The BSON helpers used, to be imported */
+  imports: Set<string>;
+  /** The keywords that couldn't be converted, as comments */
+  notes: string[];
+}
+
+type Path = (string | number)[];
+
+/** The BSON helper for each BSON type without a Zod equivalent */
+const BSON_HELPERS: Record<string, string> = {
+  binData: "zBinary",
+  decimal: "zDecimal128",
+  javascript: "zJavascript",
+  long: "zLong",
+  objectId: "zObjectId",
+  regex: "zRegex",
+  timestamp: "zTimestamp",
+};
+
+/** The Zod schema for each BSON type with a Zod equivalent */
+const ZOD_TYPES: Record<string, string> = {
+  bool: "z.boolean()",
+  date: "z.date()",
+  double: "z.float64()",
+  int: "z.int32()",
+  null: "z.null()",
+  number: "z.number()",
+  string: "z.string()",
+};
+
+/** Keywords converted to something other than a Zod method */
+const STRUCTURAL_KEYWORDS = new Set([
+  "additionalItems",
+  "additionalProperties",
+  "allOf",
+  "anyOf",
+  "bsonType",
+  "description",
+  "enum",
+  "exclusiveMaximum",
+  "exclusiveMinimum",
+  "items",
+  "maximum",
+  "maxItems",
+  "maxLength",
+  "minimum",
+  "minItems",
+  "minLength",
+  "multipleOf",
+  "oneOf",
+  "pattern",
+  "patternProperties",
+  "properties",
+  "required",
+  "title",
+  "type",
+  "uniqueItems",
+]);
+
+/** Keywords that only apply to objects */
+const OBJECT_KEYWORDS = [
+  "additionalProperties",
+  "patternProperties",
+  "properties",
+  "required",
+];
+
+/** @internal */
+function _note(context: GeneratorContext, path: Path, message: string) {
+  const property = formatSchemaPath(path);
+  context.notes.push(property ? `${property}: ${message}` : message);
+}
+
+/** @internal */
+function _indent(depth: number) {
+  return "  ".repeat(depth);
+}
+
+/**
+ * Formats a list of expressions on one line when it's short, and one per line
+ * otherwise.
+ *
+ * @internal
+ */
+function _list(items: string[], depth: number) {
+  const inline = items.join(", ");
+  if (!inline.includes("\n") && inline.length <= 60) return inline;
+
+  const lines = items.map((item) => `${_indent(depth + 1)}${item},`);
+  return `\n${lines.join("\n")}\n${_indent(depth)}`;
+}
+
+/** @internal */
+function _propertyKey(key: string) {
+  return /^[$A-Z_a-z][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** @internal */
+function _regexLiteral(pattern: string): string | undefined {
+  const regex = fromPcrePattern(pattern);
+  return regex ? String(regex) : undefined;
+}
+
+/** @internal */
+function _bigintLiteral(value: number) {
+  return `${BigInt(Math.trunc(value))}n`;
+}
+
+/**
+ * The methods for `minimum`, `maximum` and `multipleOf`.
+ *
+ * @internal
+ */
+function _numberChecks(schema: MongoSchema) {
+  let checks = "";
+
+  if (schema.minimum !== undefined) {
+    const method = schema.exclusiveMinimum ? "gt" : "min";
+    checks += `.${method}(${schema.minimum})`;
+  }
+  if (schema.maximum !== undefined) {
+    const method = schema.exclusiveMaximum ? "lt" : "max";
+    checks += `.${method}(${schema.maximum})`;
+  }
+  if (schema.multipleOf !== undefined) {
+    checks += `.multipleOf(${schema.multipleOf})`;
+  }
+
+  return checks;
+}
+
+/**
+ * The methods for a minimum and maximum length or size, e.g. `minLength`.
+ *
+ * @internal
+ */
+function _lengthChecks(min: number | undefined, max: number | undefined) {
+  if (min !== undefined && min === max) return `.length(${min})`;
+
+  return (
+    (min === undefined ? "" : `.min(${min})`) +
+    (max === undefined ? "" : `.max(${max})`)
+  );
+}
+
+/**
+ * The source of `.meta()` with `meta`, e.g. for keywords Zod doesn't check.
+ *
+ * @internal
+ */
+function _metaSource(meta: Record<string, unknown>) {
+  const entries = Object.entries(meta).map(
+    ([key, value]) => `${key}: ${JSON.stringify(value)}`,
+  );
+  return `.meta({ ${entries.join(", ")} })`;
+}
+
+/** @internal */
+function _hasBounds(schema: MongoSchema) {
+  return (
+    schema.minimum !== undefined ||
+    schema.maximum !== undefined ||
+    schema.multipleOf !== undefined
+  );
+}
+
+/** @internal */
+function _bsonTypeSource(type: string, context: GeneratorContext) {
+  const helper = BSON_HELPERS[type];
+  if (helper && context.bsonHelpers) {
+    context.imports.add(helper);
+    return `${helper}()`;
+  }
+
+  return `z.unknown().meta({ bsonType: ${JSON.stringify(type)} })`;
+}
+
+/**
+ * The source of a `long`. The driver returns `Long`s (or `number`s), never
+ * `bigint`s, so bounds are checked by refinements rather than `z.bigint()`,
+ * and kept in `.meta()` for `zodToMongoSchema`.
+ *
+ * @internal
+ */
+function _longSource(schema: MongoSchema, context: GeneratorContext) {
+  if (!_hasBounds(schema)) return _bsonTypeSource("long", context);
+
+  const { minimum, exclusiveMinimum, maximum, exclusiveMaximum, multipleOf } =
+    schema;
+  const bounds = Object.fromEntries(
+    Object.entries({
+      minimum,
+      exclusiveMinimum,
+      maximum,
+      exclusiveMaximum,
+      multipleOf,
+    }).filter(([, value]) => value !== undefined),
+  );
+  const checks: [condition: string, message: string][] = [];
+  if (minimum !== undefined) {
+    const operator = exclusiveMinimum ? ">" : ">=";
+    checks.push([
+      `${operator} ${_bigintLiteral(minimum)}`,
+      `${operator} ${minimum}`,
+    ]);
+  }
+  if (maximum !== undefined) {
+    const operator = exclusiveMaximum ? "<" : "<=";
+    checks.push([
+      `${operator} ${_bigintLiteral(maximum)}`,
+      `${operator} ${maximum}`,
+    ]);
+  }
+  if (multipleOf !== undefined) {
+    checks.push([
+      `% ${_bigintLiteral(multipleOf)} === 0n`,
+      `that's a multiple of ${multipleOf}`,
+    ]);
+  }
+  const refinements = checks
+    .map(([condition, message]) => {
+      const error = JSON.stringify(`Expected a long ${message}`);
+      return `.refine((value) => BigInt(String(value)) ${condition}, ${error})`;
+    })
+    .join("");
+
+  // `.meta()` isn't kept by refinements, so the `bsonType` comes last
+  if (!context.bsonHelpers) {
+    return `z.unknown()${refinements}${_metaSource({ bsonType: "long", ...bounds })}`;
+  }
+  context.imports.add(BSON_HELPERS.long!);
+  return `${BSON_HELPERS.long}()${refinements}${_metaSource(bounds)}`;
+}
+
+/** @internal */
+function _stringSource(
+  schema: MongoSchema,
+  path: Path,
+  context: GeneratorContext,
+) {
+  let source = `z.string()${_lengthChecks(schema.minLength, schema.maxLength)}`;
+
+  if (schema.pattern !== undefined) {
+    const regex = _regexLiteral(schema.pattern);
+    if (regex) {
+      source += `.regex(${regex})`;
+    } else {
+      _note(
+        context,
+        path,
+        `\`pattern\` /${schema.pattern}/ isn't a valid JavaScript regex.`,
+      );
+    }
+  }
+
+  return source;
+}
+
+/** @internal */
+function _objectSource(
+  schema: MongoSchema,
+  path: Path,
+  depth: number,
+  context: GeneratorContext,
+) {
+  const { additionalProperties, patternProperties = {} } = schema;
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required);
+  const patterns = Object.entries(patternProperties);
+
+  // Required properties without a schema accept any value. The `_id` that
+  // `zodToMongoSchema` allows in root objects is left out, as it's added back.
+  const isAddedId = !required.has("_id") && isAllowedId(properties._id);
+  const keys = [...new Set([...Object.keys(properties), ...required])].filter(
+    (key) => !(isAddedId && key === "_id"),
+  );
+
+  // Only keyed by patterns or `additionalProperties`, like `z.record()`
+  if (keys.length === 0) {
+    if (patterns.length === 1 && additionalProperties === false) {
+      const [[pattern, valueSchema]] = patterns as [[string, MongoSchema]];
+      const regex = _regexLiteral(pattern);
+      if (regex) {
+        const value = _toZod(
+          valueSchema,
+          [...path, "patternProperties", pattern],
+          depth,
+          context,
+        );
+        return `z.record(z.string().regex(${regex}), ${value})`;
+      }
+    }
+
+    if (patterns.length === 0 && typeof additionalProperties === "object") {
+      const value = _toZod(
+        additionalProperties,
+        [...path, "additionalProperties"],
+        depth,
+        context,
+      );
+      return `z.record(z.string(), ${value})`;
+    }
+  }
+
+  if (patterns.length > 0) {
+    _note(context, path, "`patternProperties` has no Zod equivalent here.");
+  }
+
+  const entries = keys.map((key) => {
+    const value = properties[key]
+      ? _toZod(
+          properties[key],
+          [...path, "properties", key],
+          depth + 1,
+          context,
+        )
+      : "z.unknown()";
+    const optional = required.has(key) ? "" : ".optional()";
+    return `${_indent(depth + 1)}${_propertyKey(key)}: ${value}${optional},`;
+  });
+  const shape =
+    entries.length === 0
+      ? "{}"
+      : `{\n${entries.join("\n")}\n${_indent(depth)}}`;
+
+  if (additionalProperties === false) return `z.object(${shape})`;
+
+  const isUnconstrained =
+    additionalProperties === undefined ||
+    additionalProperties === true ||
+    Object.keys(additionalProperties).length === 0;
+  if (isUnconstrained) return `z.looseObject(${shape})`;
+
+  const catchall = _toZod(
+    additionalProperties,
+    [...path, "additionalProperties"],
+    depth,
+    context,
+  );
+  return `z.object(${shape}).catchall(${catchall})`;
+}
+
+/** @internal */
+function _arraySource(
+  schema: MongoSchema,
+  path: Path,
+  depth: number,
+  context: GeneratorContext,
+) {
+  const { items, additionalItems } = schema;
+  const lengthChecks = _lengthChecks(schema.minItems, schema.maxItems);
+
+  if (Array.isArray(items)) {
+    const tuple = items.map((item, index) =>
+      _toZod(item, [...path, "items", index], depth + 1, context),
+    );
+    let source = `z.tuple([${_list(tuple, depth)}])`;
+
+    if (typeof additionalItems === "object") {
+      const rest = _toZod(
+        additionalItems,
+        [...path, "additionalItems"],
+        depth,
+        context,
+      );
+      source += `.rest(${rest})`;
+    }
+
+    return source;
+  }
+
+  const item = items
+    ? _toZod(items, [...path, "items"], depth, context)
+    : "z.unknown()";
+
+  // `z.set()` would reject the arrays the driver returns
+  if (schema.uniqueItems) {
+    _note(
+      context,
+      path,
+      "`uniqueItems` is only checked by MongoDB, since `z.set()` rejects arrays.",
+    );
+    return `z.array(${item})${lengthChecks}${_metaSource({ uniqueItems: true })}`;
+  }
+
+  return `z.array(${item})${lengthChecks}`;
+}
+
+/** @internal */
+function _typeSource(
+  type: string,
+  schema: MongoSchema,
+  path: Path,
+  depth: number,
+  context: GeneratorContext,
+) {
+  switch (type) {
+    case "string": {
+      return _stringSource(schema, path, context);
+    }
+    case "object": {
+      return _objectSource(schema, path, depth, context);
+    }
+    case "array": {
+      return _arraySource(schema, path, depth, context);
+    }
+    case "int":
+    case "number": {
+      return `${ZOD_TYPES[type]}${_numberChecks(schema)}`;
+    }
+    case "double": {
+      // `z.float64()` with bounds can't be told apart from `z.number()`
+      return _hasBounds(schema)
+        ? `z.number()${_numberChecks(schema)}`
+        : "z.float64()";
+    }
+    case "long": {
+      return _longSource(schema, context);
+    }
+    default: {
+      if (type === "decimal" && _hasBounds(schema)) {
+        _note(context, path, "`decimal` bounds have no Zod equivalent.");
+      }
+      return ZOD_TYPES[type] ?? _bsonTypeSource(type, context);
+    }
+  }
+}
+
+/** @internal */
+function _literalSource(value: unknown) {
+  return `z.literal(${JSON.stringify(value)})`;
+}
+
+/** @internal */
+function _enumSource(
+  values: unknown[],
+  path: Path,
+  depth: number,
+  context: GeneratorContext,
+) {
+  const others = values.filter((value) => value !== null);
+  const nullable = others.length < values.length ? ".nullable()" : "";
+
+  if (others.some((value) => typeof value === "object")) {
+    _note(context, path, "`enum` values that are objects aren't converted.");
+    return "z.unknown()";
+  }
+  if (others.length === 0) return "z.null()";
+  if (others.length === 1) return `${_literalSource(others[0])}${nullable}`;
+
+  if (others.every((value) => typeof value === "string")) {
+    const list = others.map((value) => JSON.stringify(value));
+    return `z.enum([${_list(list, depth)}])${nullable}`;
+  }
+
+  const literals = others.map((value) => _literalSource(value));
+  return `z.union([${_list(literals, depth)}])${nullable}`;
+}
+
+/**
+ * Finds the property that tells the options of a `oneOf` apart, i.e. one
+ * that every option requires and pins to its own values with an `enum`.
+ *
+ * @internal
+ */
+function _discriminator(options: MongoSchema[]): string | undefined {
+  const [first, ...rest] = options;
+  const candidates = Object.keys(first?.properties ?? {});
+
+  return candidates.find((key) => {
+    const seen = new Set<unknown>();
+
+    return [first!, ...rest].every((option) => {
+      const values = option.properties?.[key]?.enum;
+      if (!option.required?.includes(key) || !values) return false;
+
+      return values.every((value) => {
+        if (typeof value === "object" || seen.has(value)) return false;
+        seen.add(value);
+        return true;
+      });
+    });
+  });
+}
+
+/** @internal */
+function _unionSource(
+  keyword: "anyOf" | "oneOf",
+  options: MongoSchema[],
+  path: Path,
+  depth: number,
+  context: GeneratorContext,
+) {
+  // A nullable schema (that couldn't be folded into a list of types)
+  const isNull = (option: MongoSchema) =>
+    Object.keys(option).length === 1 &&
+    (option.type === "null" || option.bsonType === "null");
+  const others = options.filter((option) => !isNull(option));
+  if (keyword === "anyOf" && others.length === 1 && options.length === 2) {
+    const index = options.indexOf(others[0]!);
+    return `${_toZod(others[0]!, [...path, keyword, index], depth, context)}.nullable()`;
+  }
+
+  const sources = options.map((option, index) =>
+    _toZod(option, [...path, keyword, index], depth + 1, context),
+  );
+
+  if (keyword === "oneOf") {
+    const discriminator = _discriminator(options);
+    if (discriminator) {
+      const list = _list(sources, depth);
+      return `z.discriminatedUnion(${JSON.stringify(discriminator)}, [${list}])`;
+    }
+
+    _note(
+      context,
+      path,
+      "`oneOf` became `z.union()`, which also accepts values matching more than one option.",
+    );
+  }
+
+  return `z.union([${_list(sources, depth)}])`;
+}
+
+/** @internal */
+function _annotations(schema: MongoSchema) {
+  const { title, description } = schema;
+
+  if (title !== undefined) {
+    return _metaSource({
+      title,
+      ...(description === undefined ? {} : { description }),
+    });
+  }
+
+  return description === undefined
+    ? ""
+    : `.describe(${JSON.stringify(description)})`;
+}
+
+/**
+ * Converts a `MongoSchema` to the source of an equivalent Zod schema.
+ *
+ * @internal
+ */
+function _toZod(
+  schema: MongoSchema,
+  path: Path,
+  depth: number,
+  context: GeneratorContext,
+): string {
+  for (const key of Object.keys(schema)) {
+    if (!STRUCTURAL_KEYWORDS.has(key)) {
+      _note(context, path, `\`${key}\` has no Zod equivalent.`);
+    }
+  }
+
+  const parts: string[] = [];
+
+  if (schema.enum) {
+    parts.push(_enumSource(schema.enum, path, depth, context));
+  } else {
+    // Without a type, object keywords imply an object, and `items` an array
+    const inferred = OBJECT_KEYWORDS.some((key) => key in schema)
+      ? ["object"]
+      : "items" in schema
+        ? ["array"]
+        : [];
+    const types = [schema.bsonType ?? schema.type ?? inferred]
+      .flat()
+      .map((type: string) => (type === "boolean" ? "bool" : type));
+    const others = types.filter((type) => type !== "null");
+    const sources = others.map((type) =>
+      _typeSource(
+        type,
+        schema,
+        path,
+        depth + (others.length > 1 ? 1 : 0),
+        context,
+      ),
+    );
+
+    let source: string | undefined;
+    if (sources.length > 1) {
+      source = `z.union([${_list(sources, depth)}])`;
+    } else if (sources.length === 1) {
+      source = sources[0];
+    } else if (types.length > 0) {
+      source = "z.null()";
+    }
+
+    if (source && others.length > 0 && others.length < types.length) {
+      source += ".nullable()";
+    }
+    if (source) parts.push(source);
+  }
+
+  if (schema.anyOf) {
+    parts.push(_unionSource("anyOf", schema.anyOf, path, depth, context));
+  }
+  if (schema.oneOf) {
+    parts.push(_unionSource("oneOf", schema.oneOf, path, depth, context));
+  }
+  for (const [index, branch] of (schema.allOf ?? []).entries()) {
+    parts.push(_toZod(branch, [...path, "allOf", index], depth, context));
+  }
+
+  const [first = "z.unknown()", ...rest] = parts;
+  const intersections = rest.map((part) => `.and(${part})`).join("");
+
+  return `${first}${intersections}${_annotations(schema)}`;
+}
+
+/**
+ * Generates TypeScript source code for a Zod schema equivalent to a MongoDB
+ * JSON Schema, e.g. to adopt Zod on a collection whose validator was written
+ * by hand. BSON types are mapped back to their Zod types (see "Type mapping"
+ * in the README), and keywords without a Zod equivalent are listed in a
+ * comment.
+ *
+ * @param schema The `$jsonSchema` of a validator, or the validator itself.
+ * @param options The name of the exported schema and how BSON types are
+ * generated.
+ * @returns The source of a module exporting the Zod schema.
+ *
+ * @example
+ * import { writeFile } from "node:fs/promises";
+ * import { mongoSchemaToZod } from "zod-to-mongo-schema";
+ *
+ * const [info] = await db.listCollections({ name: "users" }).toArray();
+ * const source = mongoSchemaToZod(info.options.validator, {
+ *   name: "userSchema",
+ * });
+ * await writeFile("src/schemas/user.ts", source);
+ */
+export function mongoSchemaToZod(
+  schema: MongoSchema | { $jsonSchema: MongoSchema },
+  options: MongoSchemaToZodOptions = {},
+): string {
+  const { name = "schema", bsonHelpers = true } = options;
+  const context: GeneratorContext = {
+    bsonHelpers,
+    imports: new Set(),
+    notes: [],
+  };
+
+  const jsonSchema = "$jsonSchema" in schema ? schema.$jsonSchema : schema;
+  const source = _toZod(jsonSchema, [], 0, context);
+
+  const lines = ['import z from "zod";'];
+  if (context.imports.size > 0) {
+    const imports = [...context.imports].toSorted().join(", ");
+    lines.push(`import { ${imports} } from "zod-to-mongo-schema";`);
+  }
+  lines.push("");
+
+  if (context.notes.length > 0) {
+    lines.push("// Not converted:");
+    for (const note of context.notes) lines.push(`// - ${note}`);
+  }
+  lines.push(`export const ${name} = ${source};`, "");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import { createCollectionCommand, modifyCollectionCommand } from "./command.js";
+import zodToMongoSchema from "./index.js";
+
+describe("command documents", () => {
+  const userSchema = z.object({
+    _id: z.unknown().meta({ bsonType: "objectId" }),
+    name: z.string(),
+    age: z.int32().min(0),
+  });
+
+  describe("createCollectionCommand", () => {
+    it("wraps the converted schema in a `create` command", () => {
+      const command = createCollectionCommand("users", userSchema);
+
+      expect(command).toEqual({
+        create: "users",
+        validator: { $jsonSchema: zodToMongoSchema(userSchema) },
+        validationLevel: "strict",
+        validationAction: "error",
+      });
+    });
+
+    it("uses the given validation level and action", () => {
+      const command = createCollectionCommand("users", userSchema, {
+        validationLevel: "moderate",
+        validationAction: "warn",
+      });
+
+      expect(command.validationLevel).toBe("moderate");
+      expect(command.validationAction).toBe("warn");
+    });
+
+    it("passes converter options through", () => {
+      const schema = z.object({
+        data: z.instanceof(Uint8Array).meta({ bsonType: "binData" }),
+      });
+
+      expect(() => createCollectionCommand("files", schema)).toThrowError(
+        /`bsonType` can only be used with `z\.unknown\(\)`./,
+      );
+
+      const command = createCollectionCommand("files", schema, {
+        strict: false,
+      });
+      expect(command.validator.$jsonSchema.properties?.data).toEqual({
+        bsonType: "binData",
+      });
+    });
+  });
+
+  describe("modifyCollectionCommand", () => {
+    it("wraps the converted schema in a `collMod` command", () => {
+      const command = modifyCollectionCommand("users", userSchema, {
+        validationLevel: "moderate",
+      });
+
+      expect(command).toEqual({
+        collMod: "users",
+        validator: { $jsonSchema: zodToMongoSchema(userSchema) },
+        validationLevel: "moderate",
+        validationAction: "error",
+      });
+    });
+
+    it("produces plain, JSON-serializable objects", () => {
+      const command = modifyCollectionCommand("users", userSchema);
+
+      const serialized = JSON.stringify(command);
+      expect(JSON.parse(serialized)).toEqual(command);
+      expect(Object.getPrototypeOf(command)).toBe(Object.prototype);
+    });
+  });
+});
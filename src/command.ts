@@ -0,0 +1,140 @@
+import type * as z4 from "zod/v4/core";
+
+import zodToMongoSchema, { type ZodToMongoSchemaOptions } from "./index.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * MongoDB validation levels
+ * @see https://www.mongodb.com/docs/manual/core/schema-validation/specify-validation-level/
+ */
+type ValidationLevel = "off" | "strict" | "moderate";
+
+/**
+ * MongoDB validation actions
+ * @see https://www.mongodb.com/docs/manual/core/schema-validation/handle-invalid-documents/
+ */
+type ValidationAction = "error" | "warn" | "errorAndLog";
+
+/**
+ * Options for generating `create` and `collMod` command documents.
+ */
+export interface CollectionCommandOptions extends ZodToMongoSchemaOptions {
+  /**
+   * Which documents MongoDB applies the validator to. Use `"moderate"` while
+   * rolling out a validator, so existing invalid documents can still be
+   * updated.
+   *
+   * @default "strict"
+   */
+  validationLevel?: ValidationLevel;
+
+  /**
+   * Whether MongoDB rejects invalid documents (`"error"`) or only logs them
+   * (`"warn"`).
+   *
+   * @default "error"
+   */
+  validationAction?: ValidationAction;
+}
+
+/**
+ * A `create` command document
+ * @see https://www.mongodb.com/docs/manual/reference/command/create/
+ */
+export interface CreateCollectionCommand {
+  create: string;
+  validator: { $jsonSchema: MongoSchema };
+  validationLevel: ValidationLevel;
+  validationAction: ValidationAction;
+}
+
+/**
+ * A `collMod` command document
+ * @see https://www.mongodb.com/docs/manual/reference/command/collMod/
+ */
+export interface ModifyCollectionCommand {
+  collMod: string;
+  validator: { $jsonSchema: MongoSchema };
+  validationLevel: ValidationLevel;
+  validationAction: ValidationAction;
+}
+
+/** @internal */
+function _validatorOptions(
+  zodSchema: z4.$ZodType,
+  options: CollectionCommandOptions,
+) {
+  const {
+    validationLevel = "strict",
+    validationAction = "error",
+    ...converterOptions
+  } = options;
+
+  return {
+    validator: { $jsonSchema: zodToMongoSchema(zodSchema, converterOptions) },
+    validationLevel,
+    validationAction,
+  };
+}
+
+/**
+ * Generates a `create` command document that creates a collection with a
+ * validator converted from a Zod schema.
+ *
+ * The result is a plain object, so it can be passed to any driver's
+ * `runCommand` or serialized into a mongosh script.
+ *
+ * @param collectionName The name of the collection to create.
+ * @param zodSchema The Zod schema to convert.
+ * @param options Validation level/action and converter options.
+ * @returns A `create` command document.
+ *
+ * @example
+ * import z from "zod";
+ * import { createCollectionCommand } from "zod-to-mongo-schema";
+ *
+ * const userSchema = z.object({ name: z.string() });
+ * await db.command(createCollectionCommand("users", userSchema));
+ */
+export function createCollectionCommand(
+  collectionName: string,
+  zodSchema: z4.$ZodType,
+  options: CollectionCommandOptions = {},
+): CreateCollectionCommand {
+  return {
+    create: collectionName,
+    ..._validatorOptions(zodSchema, options),
+  };
+}
+
+/**
+ * Generates a `collMod` command document that replaces the validator of an
+ * existing collection with one converted from a Zod schema.
+ *
+ * The result is a plain object, so it can be passed to any driver's
+ * `runCommand` or serialized into a mongosh script.
+ *
+ * @param collectionName The name of the collection to modify.
+ * @param zodSchema The Zod schema to convert.
+ * @param options Validation level/action and converter options.
+ * @returns A `collMod` command document.
+ *
+ * @example
+ * import z from "zod";
+ * import { modifyCollectionCommand } from "zod-to-mongo-schema";
+ *
+ * const userSchema = z.object({ name: z.string(), email: z.email() });
+ * await db.command(
+ *   modifyCollectionCommand("users", userSchema, { validationLevel: "moderate" }),
+ * );
+ */
+export function modifyCollectionCommand(
+  collectionName: string,
+  zodSchema: z4.$ZodType,
+  options: CollectionCommandOptions = {},
+): ModifyCollectionCommand {
+  return {
+    collMod: collectionName,
+    ..._validatorOptions(zodSchema, options),
+  };
+}
@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import { diffSchemas } from "./diff.js";
+import zodToMongoSchema from "./index.js";
+
+describe("diffSchemas", () => {
+  const userSchema = z.object({
+    name: z.string(),
+    age: z.int32().min(0),
+    role: z.enum(["user", "admin"]),
+    nickname: z.string().nullable(),
+    legacyId: z.string().optional(),
+  });
+
+  it("reports no changes for identical schemas", () => {
+    expect(diffSchemas(userSchema, userSchema)).toEqual({
+      breaking: false,
+      changes: [],
+    });
+  });
+
+  it("accepts Zod schemas and `MongoSchema`s interchangeably", () => {
+    const before = zodToMongoSchema(userSchema);
+    const after = userSchema.extend({ age: z.int32().min(18) });
+
+    expect(diffSchemas(before, after)).toEqual(diffSchemas(userSchema, after));
+    expect(diffSchemas(before, after).changes).toEqual([
+      {
+        path: "age",
+        kind: "constraint_tightened",
+        compatibility: "breaking",
+        message: "`minimum` changed from 0 to 18.",
+      },
+    ]);
+  });
+
+  it("classifies property and `required` changes", () => {
+    const after = userSchema.omit({ legacyId: true }).extend({
+      email: z.string(),
+      bio: z.string().optional(),
+      name: z.string().optional(),
+    });
+
+    const { breaking, changes } = diffSchemas(userSchema, after);
+
+    expect(breaking).toBe(true);
+    expect(changes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: "legacyId",
+          kind: "property_removed",
+          compatibility: "breaking",
+        }),
+        expect.objectContaining({
+          path: "email",
+          kind: "property_added",
+          compatibility: "compatible",
+        }),
+        expect.objectContaining({
+          path: "email",
+          kind: "required_added",
+          compatibility: "breaking",
+        }),
+        expect.objectContaining({
+          path: "bio",
+          kind: "property_added",
+          compatibility: "compatible",
+        }),
+        expect.objectContaining({
+          path: "name",
+          kind: "required_removed",
+          compatibility: "compatible",
+        }),
+      ]),
+    );
+    expect(changes).toHaveLength(5);
+  });
+
+  it("classifies type, enum and nullability changes", () => {
+    const after = userSchema.extend({
+      age: z.union([z.int32().min(0), z.literal("unknown")]),
+      role: z.enum(["user", "admin", "owner"]),
+      nickname: z.string(),
+      name: z.string().nullable(),
+    });
+
+    const { changes } = diffSchemas(userSchema, after);
+
+    expect(changes).toEqual([
+      {
+        path: "name",
+        kind: "type_widened",
+        compatibility: "compatible",
+        message: "Type changed from string to string | null.",
+      },
+      {
+        path: "age",
+        kind: "schema_changed",
+        compatibility: "compatible",
+        message: "`anyOf` options were added.",
+      },
+      {
+        path: "role",
+        kind: "enum_widened",
+        compatibility: "compatible",
+        message: 'Now also allows "owner".',
+      },
+      {
+        path: "nickname",
+        kind: "type_narrowed",
+        compatibility: "breaking",
+        message: "Type changed from string | null to string.",
+      },
+    ]);
+  });
+
+  it("classifies range, pattern and array constraints", () => {
+    const before = z.object({
+      code: z.string().max(10),
+      tags: z.array(z.string()).max(5),
+      score: z.number().gte(0),
+    });
+    const after = z.object({
+      code: z
+        .string()
+        .max(20)
+        .regex(/^[A-Z]+$/),
+      tags: z.array(z.string()).max(3),
+      score: z.number().gt(0),
+    });
+
+    const { changes } = diffSchemas(before, after);
+
+    expect(changes).toEqual([
+      {
+        path: "code",
+        kind: "constraint_loosened",
+        compatibility: "compatible",
+        message: "`maxLength` changed from 10 to 20.",
+      },
+      {
+        path: "code",
+        kind: "pattern_changed",
+        compatibility: "breaking",
+        message: "`pattern` /^[A-Z]+$/ was added.",
+      },
+      {
+        path: "tags",
+        kind: "constraint_tightened",
+        compatibility: "breaking",
+        message: "`maxItems` changed from 5 to 3.",
+      },
+      {
+        path: "score",
+        kind: "constraint_tightened",
+        compatibility: "breaking",
+        message: "`minimum` 0 is now exclusive.",
+      },
+    ]);
+  });
+
+  it("reports nested changes with their property path", () => {
+    const before = z.object({
+      orders: z.array(z.object({ sku: z.string() })),
+    });
+    const after = z.object({
+      orders: z.array(z.object({ sku: z.string().length(8) })),
+    });
+
+    expect(diffSchemas(before, after).changes.map(({ path }) => path)).toEqual([
+      "orders[].sku",
+      "orders[].sku",
+    ]);
+  });
+
+  it("treats new properties as breaking when unlisted ones were allowed", () => {
+    const before = z.looseObject({ name: z.string() });
+    const after = z.object({ name: z.string(), age: z.number().optional() });
+
+    const { changes } = diffSchemas(before, after);
+
+    expect(changes).toEqual([
+      {
+        path: "_id",
+        kind: "property_added",
+        compatibility: "compatible",
+        message: "`_id` was added.",
+      },
+      {
+        path: "age",
+        kind: "property_added",
+        compatibility: "breaking",
+        message:
+          "`age` was added, but unlisted properties were allowed, so existing documents may have it with other values.",
+      },
+      {
+        path: "",
+        kind: "additional_properties_restricted",
+        compatibility: "breaking",
+        message: "Properties not in `properties` are no longer allowed.",
+      },
+    ]);
+  });
+});
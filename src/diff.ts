@@ -0,0 +1,830 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type * as z4 from "zod/v4/core";
+
+import { formatSchemaPath } from "./errors.js";
+import zodToMongoSchema, { type ZodToMongoSchemaOptions } from "./index.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * - `property_added`/`property_removed`: a field in `properties`.
+ * - `required_added`/`required_removed`: a field in `required`.
+ * - `type_narrowed`/`type_widened`/`type_changed`: the accepted BSON types
+ *   (including `null` for nullable fields).
+ * - `constraint_tightened`/`constraint_loosened`: bounds like `minimum` and
+ *   `maxLength`, `multipleOf` and `uniqueItems`.
+ * - `pattern_changed`: a `pattern` was added, removed or replaced.
+ * - `enum_narrowed`/`enum_widened`/`enum_changed`: the allowed values.
+ * - `additional_properties_restricted`/`additional_properties_allowed`:
+ *   whether fields not in `properties` are allowed.
+ * - `schema_changed`: any other change, e.g. to `anyOf` options.
+ * - `validation_level_changed`/`validation_action_changed`: a collection's
+ *   validation settings, only compared by registries.
+ */
+export type SchemaChangeKind =
+  | "property_added"
+  | "property_removed"
+  | "required_added"
+  | "required_removed"
+  | "type_narrowed"
+  | "type_widened"
+  | "type_changed"
+  | "constraint_tightened"
+  | "constraint_loosened"
+  | "pattern_changed"
+  | "enum_narrowed"
+  | "enum_widened"
+  | "enum_changed"
+  | "additional_properties_restricted"
+  | "additional_properties_allowed"
+  | "schema_changed"
+  | "validation_level_changed"
+  | "validation_action_changed";
+
+/**
+ * A single difference between two schema versions.
+ */
+export interface SchemaChange {
+  /** The property path, e.g. `orders[].sku`. Empty for the root schema. */
+  path: string;
+  kind: SchemaChangeKind;
+  /**
+   * `"breaking"` if documents valid under the old schema may fail the new
+   * one, `"compatible"` otherwise.
+   */
+  compatibility: "compatible" | "breaking";
+  message: string;
+}
+
+/**
+ * The differences between two schema versions.
+ */
+export interface SchemaDiff {
+  /** Whether existing documents may start failing validation */
+  breaking: boolean;
+  changes: SchemaChange[];
+}
+
+type Path = (string | number)[];
+
+/** A change, before its path is formatted */
+type PendingChange = Omit<SchemaChange, "path"> & { path: Path };
+
+/** JSON Schema `type` → BSON types it matches */
+const JSON_TYPES: Record<string, readonly string[]> = {
+  object: ["object"],
+  array: ["array"],
+  number: ["double", "int", "long", "decimal"],
+  boolean: ["bool"],
+  string: ["string"],
+  null: ["null"],
+};
+
+/** Lower bounds, which are tightened by raising them */
+const LOWER_BOUNDS = ["minimum", "minLength", "minItems", "minProperties"];
+
+/** Upper bounds, which are tightened by lowering them */
+const UPPER_BOUNDS = ["maximum", "maxLength", "maxItems", "maxProperties"];
+
+/** @internal */
+function _isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      (key) =>
+        Object.hasOwn(b, key) && _isDeepEqual((a as any)[key], (b as any)[key]),
+    )
+  );
+}
+
+/** Keywords that don't change what a schema accepts */
+const ANNOTATIONS = new Set(["title", "description"]);
+
+/**
+ * Whether a schema (e.g. `additionalProperties` or `additionalItems`) accepts
+ * anything.
+ *
+ * @internal
+ */
+function _isUnconstrained(schema: unknown) {
+  return (
+    schema === undefined ||
+    schema === true ||
+    (typeof schema === "object" &&
+      schema !== null &&
+      !Array.isArray(schema) &&
+      Object.keys(schema).every((key) => ANNOTATIONS.has(key)))
+  );
+}
+
+/** @internal */
+function _includesValue(values: unknown[], value: unknown) {
+  return values.some((candidate) => _isDeepEqual(candidate, value));
+}
+
+/**
+ * Zod converts `.nullable()` to `anyOf` with a `null` option. Folding it
+ * into the other option lets nullability be compared like any other type.
+ *
+ * @internal
+ */
+function _unwrapNullable(schema: Record<string, any>) {
+  const { anyOf, ...rest } = schema;
+  if (!Array.isArray(anyOf)) return { schema, nullable: false };
+
+  const others = anyOf.filter(
+    (option) => option.type !== "null" && option.bsonType !== "null",
+  );
+  if (others.length !== 1 || others.length === anyOf.length) {
+    return { schema, nullable: false };
+  }
+
+  return { schema: { ...rest, ...others[0] }, nullable: true };
+}
+
+/**
+ * The BSON types a schema accepts, or `undefined` if it accepts any.
+ *
+ * @internal
+ */
+function _acceptedTypes(schema: Record<string, any>, nullable: boolean) {
+  const sets = [schema.type, schema.bsonType]
+    .filter((types) => types !== undefined)
+    .map(
+      (types) =>
+        new Set(
+          [types].flat().flatMap((type: string) => JSON_TYPES[type] ?? [type]),
+        ),
+    );
+  if (sets.length === 0) return;
+
+  // With both `type` and `bsonType`, a value must match both
+  const [first, ...rest] = sets;
+  const accepted = new Set(
+    [...first!].filter((type) => rest.every((set) => set.has(type))),
+  );
+  if (nullable) accepted.add("null");
+  return accepted;
+}
+
+/** @internal */
+function _describeTypes(types: Set<string> | undefined) {
+  return types ? [...types].join(" | ") : "any type";
+}
+
+/** @internal */
+function _describeValues(values: unknown[]) {
+  return values.map((value) => JSON.stringify(value)).join(", ");
+}
+
+/** @internal */
+function _diffTypes(
+  before: Set<string> | undefined,
+  after: Set<string> | undefined,
+): SchemaChangeKind | undefined {
+  if (!before && !after) return;
+  if (!before) return "type_narrowed";
+  if (!after) return "type_widened";
+
+  const removed = [...before].some((type) => !after.has(type));
+  const added = [...after].some((type) => !before.has(type));
+  if (removed && added) return "type_changed";
+  if (removed) return "type_narrowed";
+  if (added) return "type_widened";
+}
+
+/**
+ * Compares a bound, where `tighter` says whether a value tightens it.
+ *
+ * @internal
+ */
+function _diffBound(
+  keyword: string,
+  before: number | undefined,
+  after: number | undefined,
+  tighter: (before: number, after: number) => boolean,
+): Omit<SchemaChange, "path"> | undefined {
+  if (before === after) return;
+
+  if (before === undefined) {
+    return {
+      kind: "constraint_tightened",
+      compatibility: "breaking",
+      message: `\`${keyword}\` ${after} was added.`,
+    };
+  }
+  if (after === undefined) {
+    return {
+      kind: "constraint_loosened",
+      compatibility: "compatible",
+      message: `\`${keyword}\` ${before} was removed.`,
+    };
+  }
+
+  const tightened = tighter(before, after);
+  return {
+    kind: tightened ? "constraint_tightened" : "constraint_loosened",
+    compatibility: tightened ? "breaking" : "compatible",
+    message: `\`${keyword}\` changed from ${before} to ${after}.`,
+  };
+}
+
+/** @internal */
+function _diffConstraints(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  add: (change: Omit<SchemaChange, "path">) => void,
+) {
+  for (const keyword of LOWER_BOUNDS) {
+    const change = _diffBound(
+      keyword,
+      before[keyword],
+      after[keyword],
+      (a, b) => b > a,
+    );
+    if (change) add(change);
+  }
+
+  for (const keyword of UPPER_BOUNDS) {
+    const change = _diffBound(
+      keyword,
+      before[keyword],
+      after[keyword],
+      (a, b) => b < a,
+    );
+    if (change) add(change);
+  }
+
+  // `exclusiveMinimum`/`exclusiveMaximum` are booleans in draft 4, which
+  // only matter if the bound itself didn't change
+  for (const [exclusive, bound] of [
+    ["exclusiveMinimum", "minimum"],
+    ["exclusiveMaximum", "maximum"],
+  ] as const) {
+    if (before[bound] !== after[bound] || after[bound] === undefined) continue;
+    if (Boolean(before[exclusive]) === Boolean(after[exclusive])) continue;
+
+    add(
+      after[exclusive]
+        ? {
+            kind: "constraint_tightened",
+            compatibility: "breaking",
+            message: `\`${bound}\` ${after[bound]} is now exclusive.`,
+          }
+        : {
+            kind: "constraint_loosened",
+            compatibility: "compatible",
+            message: `\`${bound}\` ${after[bound]} is now inclusive.`,
+          },
+    );
+  }
+
+  // A new `multipleOf` only accepts every old value if it divides the old one
+  const multipleOf = _diffBound(
+    "multipleOf",
+    before.multipleOf,
+    after.multipleOf,
+    (a, b) => !Number.isInteger(a / b),
+  );
+  if (multipleOf) add(multipleOf);
+
+  if (Boolean(before.uniqueItems) !== Boolean(after.uniqueItems)) {
+    add(
+      after.uniqueItems
+        ? {
+            kind: "constraint_tightened",
+            compatibility: "breaking",
+            message: "Items must now be unique.",
+          }
+        : {
+            kind: "constraint_loosened",
+            compatibility: "compatible",
+            message: "Items no longer need to be unique.",
+          },
+    );
+  }
+}
+
+/** @internal */
+function _diffEnum(
+  before: unknown[] | undefined,
+  after: unknown[] | undefined,
+): Omit<SchemaChange, "path"> | undefined {
+  if (!before && !after) return;
+
+  if (!before) {
+    return {
+      kind: "enum_narrowed",
+      compatibility: "breaking",
+      message: `Values are now limited to ${_describeValues(after!)}.`,
+    };
+  }
+  if (!after) {
+    return {
+      kind: "enum_widened",
+      compatibility: "compatible",
+      message: `Values are no longer limited to ${_describeValues(before)}.`,
+    };
+  }
+
+  const removed = before.filter((value) => !_includesValue(after, value));
+  const added = after.filter((value) => !_includesValue(before, value));
+
+  if (removed.length > 0 && added.length > 0) {
+    return {
+      kind: "enum_changed",
+      compatibility: "breaking",
+      message: `Now allows ${_describeValues(added)} instead of ${_describeValues(removed)}.`,
+    };
+  }
+  if (removed.length > 0) {
+    return {
+      kind: "enum_narrowed",
+      compatibility: "breaking",
+      message: `No longer allows ${_describeValues(removed)}.`,
+    };
+  }
+  if (added.length > 0) {
+    return {
+      kind: "enum_widened",
+      compatibility: "compatible",
+      message: `Now also allows ${_describeValues(added)}.`,
+    };
+  }
+}
+
+/** @internal */
+function _diffPattern(
+  before: string | undefined,
+  after: string | undefined,
+): Omit<SchemaChange, "path"> | undefined {
+  if (before === after) return;
+
+  if (before === undefined) {
+    return {
+      kind: "pattern_changed",
+      compatibility: "breaking",
+      message: `\`pattern\` /${after}/ was added.`,
+    };
+  }
+  if (after === undefined) {
+    return {
+      kind: "pattern_changed",
+      compatibility: "compatible",
+      message: `\`pattern\` /${before}/ was removed.`,
+    };
+  }
+
+  // Whether one pattern accepts everything another one does can't be known
+  // in general, so any other change is assumed to be breaking
+  return {
+    kind: "pattern_changed",
+    compatibility: "breaking",
+    message: `\`pattern\` changed from /${before}/ to /${after}/.`,
+  };
+}
+
+/**
+ * Compares `properties`, `required` and `additionalProperties`.
+ *
+ * @internal
+ */
+function _diffObject(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  path: Path,
+  changes: PendingChange[],
+) {
+  const beforeAdditional = before.additionalProperties;
+  const afterAdditional = after.additionalProperties;
+  const beforeProperties: Record<string, any> = before.properties ?? {};
+  const afterProperties: Record<string, any> = after.properties ?? {};
+  const keys = new Set([
+    ...Object.keys(beforeProperties),
+    ...Object.keys(afterProperties),
+  ]);
+
+  const addAt = (key: string, change: Omit<SchemaChange, "path">) =>
+    changes.push({
+      path: [...path, "properties", key],
+      ...change,
+    });
+
+  for (const key of keys) {
+    const propertyPath = [...path, "properties", key];
+
+    if (Object.hasOwn(beforeProperties, key)) {
+      if (Object.hasOwn(afterProperties, key)) {
+        _diff(
+          beforeProperties[key],
+          afterProperties[key],
+          propertyPath,
+          changes,
+        );
+      } else if (afterAdditional === false) {
+        addAt(key, {
+          kind: "property_removed",
+          compatibility: "breaking",
+          message: `\`${key}\` was removed, and unlisted properties aren't allowed.`,
+        });
+      } else {
+        addAt(key, {
+          kind: "property_removed",
+          compatibility: "compatible",
+          message: `\`${key}\` was removed.`,
+        });
+        // It's now validated by `additionalProperties`, if that's a schema
+        if (!_isUnconstrained(afterAdditional)) {
+          _diff(beforeProperties[key], afterAdditional, propertyPath, changes);
+        }
+      }
+      continue;
+    }
+
+    // Without `additionalProperties: false`, existing documents may already
+    // have the new property, with any value
+    if (
+      _isUnconstrained(beforeAdditional) &&
+      !_isUnconstrained(afterProperties[key])
+    ) {
+      addAt(key, {
+        kind: "property_added",
+        compatibility: "breaking",
+        message: `\`${key}\` was added, but unlisted properties were allowed, so existing documents may have it with other values.`,
+      });
+      continue;
+    }
+
+    addAt(key, {
+      kind: "property_added",
+      compatibility: "compatible",
+      message: `\`${key}\` was added.`,
+    });
+    // It used to be validated by `additionalProperties`, if that's a schema
+    if (typeof beforeAdditional === "object") {
+      _diff(beforeAdditional, afterProperties[key], propertyPath, changes);
+    }
+  }
+
+  const beforeRequired = new Set<string>(before.required);
+  const afterRequired = new Set<string>(after.required);
+  for (const key of afterRequired) {
+    if (beforeRequired.has(key)) continue;
+    addAt(key, {
+      kind: "required_added",
+      compatibility: "breaking",
+      message: `\`${key}\` is now required.`,
+    });
+  }
+  for (const key of beforeRequired) {
+    if (afterRequired.has(key)) continue;
+    addAt(key, {
+      kind: "required_removed",
+      compatibility: "compatible",
+      message: `\`${key}\` is no longer required.`,
+    });
+  }
+
+  if (beforeAdditional !== false && afterAdditional === false) {
+    changes.push({
+      path,
+      kind: "additional_properties_restricted",
+      compatibility: "breaking",
+      message: "Properties not in `properties` are no longer allowed.",
+    });
+  } else if (beforeAdditional === false && afterAdditional !== false) {
+    changes.push({
+      path,
+      kind: "additional_properties_allowed",
+      compatibility: "compatible",
+      message: "Properties not in `properties` are now allowed.",
+    });
+  } else if (
+    !_isUnconstrained(beforeAdditional) ||
+    !_isUnconstrained(afterAdditional)
+  ) {
+    _diff(
+      typeof beforeAdditional === "object" ? beforeAdditional : {},
+      typeof afterAdditional === "object" ? afterAdditional : {},
+      [...path, "additionalProperties"],
+      changes,
+    );
+  }
+
+  const beforePatterns: Record<string, any> = before.patternProperties ?? {};
+  const afterPatterns: Record<string, any> = after.patternProperties ?? {};
+  for (const pattern of new Set([
+    ...Object.keys(beforePatterns),
+    ...Object.keys(afterPatterns),
+  ])) {
+    const patternPath = [...path, "patternProperties", pattern];
+    if (!Object.hasOwn(afterPatterns, pattern)) {
+      changes.push({
+        path: patternPath,
+        kind: "schema_changed",
+        compatibility: "compatible",
+        message: `Properties matching /${pattern}/ are no longer validated.`,
+      });
+    } else if (Object.hasOwn(beforePatterns, pattern)) {
+      _diff(
+        beforePatterns[pattern],
+        afterPatterns[pattern],
+        patternPath,
+        changes,
+      );
+    } else {
+      changes.push({
+        path: patternPath,
+        kind: "schema_changed",
+        compatibility: "breaking",
+        message: `Properties matching /${pattern}/ are now validated.`,
+      });
+    }
+  }
+}
+
+/**
+ * Compares `items` and `additionalItems`.
+ *
+ * @internal
+ */
+function _diffArray(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  path: Path,
+  changes: PendingChange[],
+) {
+  if (before.items === undefined && after.items === undefined) return;
+
+  const beforeItems = before.items ?? {};
+  const afterItems = after.items ?? {};
+
+  if (Array.isArray(beforeItems) !== Array.isArray(afterItems)) {
+    changes.push({
+      path,
+      kind: "schema_changed",
+      compatibility: "breaking",
+      message: "Items changed between a tuple and a list.",
+    });
+    return;
+  }
+
+  if (!Array.isArray(beforeItems)) {
+    _diff(beforeItems, afterItems, [...path, "items"], changes);
+    return;
+  }
+
+  // Missing tuple items are validated by `additionalItems`
+  const rest = (schema: Record<string, any>) =>
+    typeof schema.additionalItems === "object" ? schema.additionalItems : {};
+  const length = Math.max(beforeItems.length, afterItems.length);
+  for (let index = 0; index < length; index++) {
+    _diff(
+      beforeItems[index] ?? rest(before),
+      afterItems[index] ?? rest(after),
+      [...path, "items", index],
+      changes,
+    );
+  }
+
+  if (before.additionalItems !== false && after.additionalItems === false) {
+    changes.push({
+      path,
+      kind: "constraint_tightened",
+      compatibility: "breaking",
+      message: "Items beyond the tuple are no longer allowed.",
+    });
+  } else if (
+    before.additionalItems === false &&
+    after.additionalItems !== false
+  ) {
+    changes.push({
+      path,
+      kind: "constraint_loosened",
+      compatibility: "compatible",
+      message: "Items beyond the tuple are now allowed.",
+    });
+  } else if (
+    !_isUnconstrained(before.additionalItems) ||
+    !_isUnconstrained(after.additionalItems)
+  ) {
+    _diff(rest(before), rest(after), [...path, "additionalItems"], changes);
+  }
+}
+
+/**
+ * Compares `anyOf`, `oneOf`, `allOf`, `not` and `dependencies`, pairing
+ * options by index.
+ *
+ * @internal
+ */
+function _diffCombinators(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  path: Path,
+  changes: PendingChange[],
+) {
+  for (const keyword of ["anyOf", "oneOf", "allOf"] as const) {
+    const beforeOptions: Record<string, any>[] | undefined = before[keyword];
+    const afterOptions: Record<string, any>[] | undefined = after[keyword];
+    if (_isDeepEqual(beforeOptions, afterOptions)) continue;
+
+    if (beforeOptions?.length === afterOptions?.length) {
+      for (const [index, option] of (beforeOptions ?? []).entries()) {
+        _diff(
+          option,
+          afterOptions![index]!,
+          [...path, keyword, index],
+          changes,
+        );
+      }
+      continue;
+    }
+
+    // Only new `anyOf` options can't fail documents that passed before
+    const isWidened =
+      keyword === "anyOf" &&
+      beforeOptions !== undefined &&
+      beforeOptions.every((option) =>
+        afterOptions?.some((candidate) => _isDeepEqual(option, candidate)),
+      );
+    changes.push({
+      path,
+      kind: "schema_changed",
+      compatibility: isWidened ? "compatible" : "breaking",
+      message: isWidened
+        ? `\`${keyword}\` options were added.`
+        : `\`${keyword}\` options changed.`,
+    });
+  }
+
+  for (const keyword of ["not", "dependencies"] as const) {
+    if (_isDeepEqual(before[keyword], after[keyword])) continue;
+
+    const removed = after[keyword] === undefined;
+    changes.push({
+      path,
+      kind: "schema_changed",
+      compatibility: removed ? "compatible" : "breaking",
+      message: removed
+        ? `\`${keyword}\` was removed.`
+        : `\`${keyword}\` changed.`,
+    });
+  }
+}
+
+/** @internal */
+function _diff(
+  beforeSchema: Record<string, any>,
+  afterSchema: Record<string, any>,
+  path: Path,
+  changes: PendingChange[],
+) {
+  const add = (change: Omit<SchemaChange, "path">) =>
+    changes.push({ path, ...change });
+
+  const { schema: before, nullable: beforeNullable } =
+    _unwrapNullable(beforeSchema);
+  const { schema: after, nullable: afterNullable } =
+    _unwrapNullable(afterSchema);
+
+  // A schema that became one of a union's options, or the other way around
+  if (
+    Array.isArray(after.anyOf) &&
+    !before.anyOf &&
+    _includesValue(after.anyOf, before)
+  ) {
+    add({
+      kind: "schema_changed",
+      compatibility: "compatible",
+      message: "`anyOf` options were added.",
+    });
+    return;
+  }
+  if (
+    Array.isArray(before.anyOf) &&
+    !after.anyOf &&
+    _includesValue(before.anyOf, after)
+  ) {
+    add({
+      kind: "schema_changed",
+      compatibility: "breaking",
+      message: "`anyOf` options were removed.",
+    });
+    return;
+  }
+
+  const beforeTypes = _acceptedTypes(before, beforeNullable);
+  const afterTypes = _acceptedTypes(after, afterNullable);
+  const typeChange = _diffTypes(beforeTypes, afterTypes);
+  if (typeChange) {
+    add({
+      kind: typeChange,
+      compatibility: typeChange === "type_widened" ? "compatible" : "breaking",
+      message: `Type changed from ${_describeTypes(beforeTypes)} to ${_describeTypes(afterTypes)}.`,
+    });
+  }
+
+  const enumChange = _diffEnum(before.enum, after.enum);
+  if (enumChange) add(enumChange);
+
+  _diffConstraints(before, after, add);
+
+  const patternChange = _diffPattern(before.pattern, after.pattern);
+  if (patternChange) add(patternChange);
+
+  _diffObject(before, after, path, changes);
+  _diffArray(before, after, path, changes);
+  _diffCombinators(before, after, path, changes);
+}
+
+/** @internal */
+function _diffSchemas(before: MongoSchema, after: MongoSchema) {
+  const changes: PendingChange[] = [];
+  _diff(before, after, [], changes);
+  return changes;
+}
+
+/**
+ * Converts Zod schemas, and passes `MongoSchema`s through.
+ */
+export function toMongoSchema(
+  schema: z4.$ZodType | MongoSchema,
+  options: ZodToMongoSchemaOptions,
+): MongoSchema {
+  return "_zod" in schema ? zodToMongoSchema(schema, options) : schema;
+}
+
+/**
+ * Compares two versions of a schema, and classifies each difference as
+ * `"breaking"` when documents valid under `before` may fail `after`, or
+ * `"compatible"` otherwise. Run it before replacing a collection's validator
+ * (e.g. with `modifyCollectionCommand`) to know whether existing documents
+ * might start failing validation.
+ *
+ * Changes that can't be compared precisely (like a replaced `pattern`) are
+ * assumed to be breaking. Annotations like `description` are ignored.
+ *
+ * @param before The current schema: a Zod schema, or a `MongoSchema` (e.g.
+ * the collection's current `$jsonSchema`).
+ * @param after The new schema: a Zod schema, or a `MongoSchema`.
+ * @param options Converter options, used for Zod schemas.
+ * @returns Whether any change is breaking, and every change.
+ *
+ * @example
+ * import z from "zod";
+ * import { diffSchemas } from "zod-to-mongo-schema";
+ *
+ * const v1 = z.object({ name: z.string() });
+ * const v2 = z.object({ name: z.string().min(1), age: z.int32() });
+ *
+ * diffSchemas(v1, v2);
+ * // {
+ * //   breaking: true,
+ * //   changes: [
+ * //     { path: "name", kind: "constraint_tightened", compatibility: "breaking", ... },
+ * //     { path: "age", kind: "property_added", compatibility: "compatible", ... },
+ * //     { path: "age", kind: "required_added", compatibility: "breaking", ... },
+ * //   ],
+ * // }
+ */
+export function diffSchemas(
+  before: z4.$ZodType | MongoSchema,
+  after: z4.$ZodType | MongoSchema,
+  options: ZodToMongoSchemaOptions = {},
+): SchemaDiff {
+  const changes = _diffSchemas(
+    toMongoSchema(before, options),
+    toMongoSchema(after, options),
+  ).map(({ path, ...change }) => ({ path: formatSchemaPath(path), ...change }));
+
+  return {
+    breaking: changes.some(({ compatibility }) => compatibility === "breaking"),
+    changes,
+  };
+}
+
+/**
+ * The top-level properties with breaking changes between two schemas, or
+ * `undefined` if the root schema itself changed in a breaking way.
+ */
+export function breakingProperties(
+  before: MongoSchema,
+  after: MongoSchema,
+): Set<string> | undefined {
+  const properties = new Set<string>();
+
+  for (const { path, compatibility } of _diffSchemas(before, after)) {
+    if (compatibility !== "breaking") continue;
+    if (path[0] !== "properties" || path[1] === undefined) return;
+    properties.add(String(path[1]));
+  }
+
+  return properties;
+}
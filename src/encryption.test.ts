@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import { zodToEncryptedFields, zodToEncryptionSchema } from "./encryption.js";
+import { ZodToMongoSchemaError } from "./errors.js";
+
+const KEY_ID = {
+  $binary: { base64: "AAAAAAAAAAAAAAAAAAAAAA==", subType: "04" },
+};
+
+const patientSchema = z.object({
+  name: z.string(),
+  ssn: z.string().meta({ encrypt: { queries: "equality" } }),
+  billing: z.object({
+    card: z.string().meta({ encrypt: { keyId: KEY_ID } }),
+    amount: z
+      .float64()
+      .optional()
+      .meta({ encrypt: { queries: "range" } }),
+  }),
+  visits: z.array(z.object({ date: z.date() })).meta({ encrypt: true }),
+});
+
+describe("zodToEncryptedFields", () => {
+  it("lists encrypted fields by dotted path with their BSON type", () => {
+    expect(zodToEncryptedFields(patientSchema)).toEqual({
+      fields: [
+        { path: "ssn", bsonType: "string", queries: { queryType: "equality" } },
+        { path: "billing.card", bsonType: "string", keyId: KEY_ID },
+        {
+          path: "billing.amount",
+          bsonType: "double",
+          queries: { queryType: "range" },
+        },
+        { path: "visits", bsonType: "array" },
+      ],
+    });
+  });
+
+  it("keeps query options as declared", () => {
+    const schema = z.object({
+      age: z.int32().meta({
+        encrypt: {
+          queries: [{ queryType: "range", min: 0, max: 150, sparsity: 2 }],
+        },
+      }),
+    });
+
+    expect(zodToEncryptedFields(schema).fields).toEqual([
+      {
+        path: "age",
+        bsonType: "int",
+        queries: [{ queryType: "range", min: 0, max: 150, sparsity: 2 }],
+      },
+    ]);
+  });
+
+  it("rejects fields that can't be encrypted or queried as declared", () => {
+    const cases = [
+      [
+        z.object({ tags: z.array(z.string().meta({ encrypt: true })) }),
+        "tags[]: Fields inside arrays can't be encrypted. Encrypt the whole array instead.",
+      ],
+      [
+        z.object({ score: z.number().meta({ encrypt: true }) }),
+        "score: Encrypted fields must have a single BSON type, e.g. numbers must be `z.int32()`, `z.float64()` or `z.bigint()`.",
+      ],
+      [
+        z.object({
+          price: z.float64().meta({ encrypt: { queries: "equality" } }),
+        }),
+        "price: Equality queries aren't supported on `double` fields.",
+      ],
+      [
+        z.object({ name: z.string().meta({ encrypt: { queries: "range" } }) }),
+        "name: Range queries aren't supported on `string` fields.",
+      ],
+    ] as const;
+
+    for (const [schema, message] of cases) {
+      expect(() => zodToEncryptedFields(schema)).toThrow(
+        expect.objectContaining({
+          name: ZodToMongoSchemaError.name,
+          code: "ENCRYPTION_UNSUPPORTED",
+          message,
+        }),
+      );
+    }
+  });
+});
+
+describe("zodToEncryptionSchema", () => {
+  it("nests encrypted fields with the algorithm their queries need", () => {
+    const schema = patientSchema.extend({
+      billing: z.object({
+        card: z.string().meta({ encrypt: { keyId: KEY_ID } }),
+      }),
+    });
+
+    expect(zodToEncryptionSchema(schema, { keyId: [KEY_ID] })).toEqual({
+      bsonType: "object",
+      encryptMetadata: { keyId: [KEY_ID] },
+      properties: {
+        ssn: {
+          encrypt: {
+            bsonType: "string",
+            algorithm: "AEAD_AES_256_CBC_HMAC_SHA_512-Deterministic",
+          },
+        },
+        billing: {
+          bsonType: "object",
+          properties: {
+            card: {
+              encrypt: {
+                bsonType: "string",
+                algorithm: "AEAD_AES_256_CBC_HMAC_SHA_512-Random",
+                keyId: [KEY_ID],
+              },
+            },
+          },
+        },
+        visits: {
+          encrypt: {
+            bsonType: "array",
+            algorithm: "AEAD_AES_256_CBC_HMAC_SHA_512-Random",
+          },
+        },
+      },
+    });
+  });
+
+  it("rejects range queries and fields without a key", () => {
+    expect(() => zodToEncryptionSchema(patientSchema)).toThrow(
+      "ssn: Encrypted fields need a `keyId`, or a default one.",
+    );
+    expect(() =>
+      zodToEncryptionSchema(patientSchema, { keyId: "/keyAltName" }),
+    ).toThrow("billing.amount: Range queries need Queryable Encryption.");
+  });
+});
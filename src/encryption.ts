@@ -0,0 +1,433 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type * as z4 from "zod/v4/core";
+
+import { formatSchemaPath, ZodToMongoSchemaError } from "./errors.js";
+import zodToMongoSchema, { type ZodToMongoSchemaOptions } from "./index.js";
+import { unwrapWithMeta } from "./indexes.js";
+import type { MongoBSONType, MongoEncryptedQuery } from "./zod.js";
+
+/**
+ * A field of a Queryable Encryption `encryptedFields` map
+ * @see https://www.mongodb.com/docs/manual/core/queryable-encryption/fundamentals/encrypt-and-query/
+ */
+export interface EncryptedField {
+  /** The dotted path of the field */
+  path: string;
+  bsonType: MongoBSONType;
+  keyId?: unknown;
+  queries?: MongoEncryptedQuery | MongoEncryptedQuery[];
+}
+
+/**
+ * The `encryptedFields` of a collection, for Queryable Encryption
+ */
+export interface EncryptedFieldsMap {
+  fields: EncryptedField[];
+}
+
+/**
+ * A node of a client-side field level encryption schema
+ * @see https://www.mongodb.com/docs/manual/core/csfle/reference/encryption-schemas/
+ */
+export interface EncryptionSchema {
+  bsonType?: "object";
+  encryptMetadata?: { keyId: unknown };
+  properties?: Record<string, EncryptionSchema>;
+  encrypt?: {
+    bsonType: MongoBSONType;
+    algorithm:
+      | "AEAD_AES_256_CBC_HMAC_SHA_512-Deterministic"
+      | "AEAD_AES_256_CBC_HMAC_SHA_512-Random";
+    keyId?: unknown;
+  };
+}
+
+/**
+ * Options for generating a client-side field level encryption schema.
+ */
+export interface EncryptionSchemaOptions extends ZodToMongoSchemaOptions {
+  /**
+   * The key of fields without their own `keyId`: an array with the UUID of a
+   * data encryption key, or a JSON pointer to a field holding its alt name.
+   */
+  keyId?: unknown;
+}
+
+/** @internal */
+interface EncryptedFieldInfo {
+  /** The path in the converted schema, for errors */
+  schemaPath: (string | number)[];
+  segments: string[];
+  bsonType: MongoBSONType;
+  queries: MongoEncryptedQuery[];
+  /** The queries as declared, if any */
+  declaredQueries: MongoEncryptedQuery | MongoEncryptedQuery[] | undefined;
+  keyId: unknown;
+}
+
+/** @internal */
+interface FieldCollector {
+  options: ZodToMongoSchemaOptions;
+  fields: Map<string, EncryptedFieldInfo>;
+  /** The object schemas being walked, to stop at recursive references */
+  ancestors: Set<z4.$ZodType>;
+}
+
+/** BSON types Queryable Encryption can't run equality queries on */
+const QE_EQUALITY_EXCLUDED = new Set(["array", "decimal", "double", "object"]);
+
+/** BSON types Queryable Encryption can run range queries on */
+const QE_RANGE_TYPES = new Set(["date", "decimal", "double", "int", "long"]);
+
+/** BSON types the deterministic algorithm can't encrypt */
+const DETERMINISTIC_EXCLUDED = new Set([
+  "array",
+  "bool",
+  "decimal",
+  "double",
+  "object",
+]);
+
+/** @internal */
+function _fail(path: (string | number)[], message: string): never {
+  throw new ZodToMongoSchemaError(
+    "ENCRYPTION_UNSUPPORTED",
+    message,
+    formatSchemaPath(path),
+  );
+}
+
+/**
+ * CSFLE takes a JSON pointer or an array of UUIDs, so a single UUID is
+ * wrapped.
+ *
+ * @internal
+ */
+function _keyList(keyId: unknown) {
+  return typeof keyId === "string" || Array.isArray(keyId) ? keyId : [keyId];
+}
+
+/**
+ * The BSON type of an encrypted field, as `zodToMongoSchema` converts it
+ * when it isn't encrypted.
+ *
+ * @internal
+ */
+function _bsonType(
+  zodSchema: z4.$ZodType,
+  path: (string | number)[],
+  options: ZodToMongoSchemaOptions,
+): MongoBSONType {
+  const schema = zodToMongoSchema(zodSchema, {
+    ...options,
+    encryptedFields: "plaintext",
+    // Already reported when converting the whole schema
+    onDiagnostic: () => {},
+  });
+
+  const types = [schema.bsonType ?? schema.type ?? []]
+    .flat()
+    .map((type) => (type === "boolean" ? "bool" : type))
+    .filter((type) => type !== "null");
+  const [type] = types;
+
+  if (types.length !== 1 || type === undefined || type === "number") {
+    _fail(
+      path,
+      "Encrypted fields must have a single BSON type, e.g. numbers must be `z.int32()`, `z.float64()` or `z.bigint()`.",
+    );
+  }
+  return type as MongoBSONType;
+}
+
+/**
+ * Collects the fields with `encrypt` in their metadata, below `zodSchema`.
+ *
+ * @internal
+ */
+function _collectEncryptedFields(
+  zodSchema: z4.$ZodType,
+  schemaPath: (string | number)[],
+  segments: string[],
+  container: "array" | "record" | undefined,
+  collector: FieldCollector,
+) {
+  const { schema, meta } = unwrapWithMeta(zodSchema);
+  const definition = schema._zod.def as any;
+
+  if (meta.encrypt !== undefined) {
+    if (segments.length === 0) {
+      _fail(schemaPath, "Only fields can be encrypted.");
+    }
+    // Encrypted fields are found by their path
+    if (container) {
+      _fail(
+        schemaPath,
+        `Fields inside ${container}s can't be encrypted. Encrypt the whole ${container} instead.`,
+      );
+    }
+
+    const id = segments.join(".");
+    if (collector.fields.has(id)) return;
+
+    const { queries, keyId } = meta.encrypt === true ? {} : meta.encrypt;
+    const declaredQueries =
+      typeof queries === "string"
+        ? { queryType: queries }
+        : (queries as EncryptedFieldInfo["declaredQueries"]);
+    collector.fields.set(id, {
+      schemaPath,
+      segments,
+      bsonType: _bsonType(zodSchema, schemaPath, collector.options),
+      queries: declaredQueries === undefined ? [] : [declaredQueries].flat(),
+      declaredQueries,
+      keyId,
+    });
+    return;
+  }
+
+  switch (definition.type) {
+    case "object": {
+      if (collector.ancestors.has(schema)) return;
+
+      collector.ancestors.add(schema);
+      for (const [key, propertySchema] of Object.entries(definition.shape)) {
+        _collectEncryptedFields(
+          propertySchema as z4.$ZodType,
+          [...schemaPath, "properties", key],
+          [...segments, key],
+          container,
+          collector,
+        );
+      }
+      collector.ancestors.delete(schema);
+      break;
+    }
+    case "array":
+    case "set": {
+      const element = definition.element ?? definition.valueType;
+      _collectEncryptedFields(
+        element,
+        [...schemaPath, "items"],
+        segments,
+        "array",
+        collector,
+      );
+      break;
+    }
+    case "tuple": {
+      for (const [index, item] of definition.items.entries()) {
+        _collectEncryptedFields(
+          item,
+          [...schemaPath, "items", index],
+          segments,
+          "array",
+          collector,
+        );
+      }
+      break;
+    }
+    case "record":
+    case "map": {
+      _collectEncryptedFields(
+        definition.valueType,
+        [...schemaPath, "additionalProperties"],
+        segments,
+        "record",
+        collector,
+      );
+      break;
+    }
+    case "union": {
+      for (const [index, option] of definition.options.entries()) {
+        _collectEncryptedFields(
+          option,
+          [...schemaPath, "anyOf", index],
+          segments,
+          container,
+          collector,
+        );
+      }
+      break;
+    }
+    case "intersection": {
+      for (const [index, branch] of [
+        definition.left,
+        definition.right,
+      ].entries()) {
+        _collectEncryptedFields(
+          branch,
+          [...schemaPath, "allOf", index],
+          segments,
+          container,
+          collector,
+        );
+      }
+      break;
+    }
+  }
+}
+
+/** @internal */
+function _encryptedFields(
+  zodSchema: z4.$ZodType,
+  options: ZodToMongoSchemaOptions,
+) {
+  const collector: FieldCollector = {
+    options,
+    fields: new Map(),
+    ancestors: new Set(),
+  };
+  _collectEncryptedFields(zodSchema, [], [], undefined, collector);
+  return [...collector.fields.values()];
+}
+
+/**
+ * Generates the `encryptedFields` map of a collection for Queryable
+ * Encryption, from the fields with `encrypt` in their `.meta()`. Each field's
+ * `bsonType` is the one `zodToMongoSchema` converts it to, and `queries`
+ * accepts `"equality"` and `"range"` as shorthands.
+ *
+ * The result is a plain document, to pass to `createEncryptedCollection` or
+ * the `create` command, or to the client's `encryptedFieldsMap`.
+ *
+ * @param zodSchema The Zod schema of the collection's documents.
+ * @param options Converter options.
+ * @returns The `encryptedFields` map.
+ * @throws {ZodToMongoSchemaError} If an encrypted field is inside an array or
+ * a record, has no single BSON type, or can't be queried as declared.
+ *
+ * @example
+ * import z from "zod";
+ * import { zodToEncryptedFields } from "zod-to-mongo-schema";
+ *
+ * const patientSchema = z.object({
+ *   name: z.string(),
+ *   ssn: z.string().meta({ encrypt: { queries: "equality" } }),
+ *   notes: z.string().meta({ encrypt: true }),
+ * });
+ *
+ * await clientEncryption.createEncryptedCollection(db, "patients", {
+ *   provider: "aws",
+ *   createCollectionOptions: {
+ *     encryptedFields: zodToEncryptedFields(patientSchema),
+ *   },
+ * });
+ */
+export function zodToEncryptedFields(
+  zodSchema: z4.$ZodType,
+  options: ZodToMongoSchemaOptions = {},
+): EncryptedFieldsMap {
+  const fields = _encryptedFields(zodSchema, options).map((field) => {
+    const { schemaPath, segments, bsonType, queries, declaredQueries, keyId } =
+      field;
+
+    for (const { queryType } of queries) {
+      if (queryType === "equality" && QE_EQUALITY_EXCLUDED.has(bsonType)) {
+        _fail(
+          schemaPath,
+          `Equality queries aren't supported on \`${bsonType}\` fields.`,
+        );
+      }
+      if (queryType === "range" && !QE_RANGE_TYPES.has(bsonType)) {
+        _fail(
+          schemaPath,
+          `Range queries aren't supported on \`${bsonType}\` fields.`,
+        );
+      }
+    }
+
+    return {
+      path: segments.join("."),
+      bsonType,
+      ...(keyId === undefined ? {} : { keyId }),
+      ...(declaredQueries === undefined ? {} : { queries: declaredQueries }),
+    };
+  });
+
+  return { fields };
+}
+
+/**
+ * Generates a client-side field level encryption schema for a collection,
+ * from the fields with `encrypt` in their `.meta()`. Fields with equality
+ * `queries` use the deterministic algorithm, so they can be queried, and the
+ * others the random one. Each field's `bsonType` is the one
+ * `zodToMongoSchema` converts it to.
+ *
+ * The result is a plain document, to use in the client's `schemaMap`, or in a
+ * `$jsonSchema` validator that enforces encryption.
+ *
+ * @param zodSchema The Zod schema of the collection's documents.
+ * @param options The default `keyId`, and converter options.
+ * @returns The encryption schema.
+ * @throws {ZodToMongoSchemaError} If an encrypted field is inside an array or
+ * a record, has no single BSON type, has no `keyId`, or can't be queried as
+ * declared.
+ *
+ * @example
+ * import z from "zod";
+ * import { zodToEncryptionSchema } from "zod-to-mongo-schema";
+ *
+ * const client = new MongoClient(uri, {
+ *   autoEncryption: {
+ *     keyVaultNamespace: "encryption.__keyVault",
+ *     kmsProviders,
+ *     schemaMap: {
+ *       "medical.patients": zodToEncryptionSchema(patientSchema, {
+ *         keyId: [dataKeyId],
+ *       }),
+ *     },
+ *   },
+ * });
+ */
+export function zodToEncryptionSchema(
+  zodSchema: z4.$ZodType,
+  options: EncryptionSchemaOptions = {},
+): EncryptionSchema {
+  const { keyId: defaultKeyId, ...converterOptions } = options;
+  const root: EncryptionSchema = {
+    bsonType: "object",
+    ...(defaultKeyId === undefined
+      ? {}
+      : { encryptMetadata: { keyId: _keyList(defaultKeyId) } }),
+  };
+
+  for (const field of _encryptedFields(zodSchema, converterOptions)) {
+    const { schemaPath, segments, bsonType, queries, keyId } = field;
+
+    if (queries.some(({ queryType }) => queryType === "range")) {
+      _fail(schemaPath, "Range queries need Queryable Encryption.");
+    }
+    const deterministic = queries.length > 0;
+    if (deterministic && DETERMINISTIC_EXCLUDED.has(bsonType)) {
+      _fail(
+        schemaPath,
+        `\`${bsonType}\` fields can't be encrypted deterministically, so they can't be queried.`,
+      );
+    }
+    if (keyId === undefined && defaultKeyId === undefined) {
+      _fail(schemaPath, "Encrypted fields need a `keyId`, or a default one.");
+    }
+
+    // Parent objects are created along the path
+    let node = root;
+    for (const segment of segments.slice(0, -1)) {
+      node.properties ??= {};
+      node = node.properties[segment] ??= { bsonType: "object" };
+    }
+    node.properties ??= {};
+    node.properties[segments.at(-1)!] = {
+      encrypt: {
+        bsonType,
+        algorithm: deterministic
+          ? "AEAD_AES_256_CBC_HMAC_SHA_512-Deterministic"
+          : "AEAD_AES_256_CBC_HMAC_SHA_512-Random",
+        ...(keyId === undefined ? {} : { keyId: _keyList(keyId) }),
+      },
+    };
+  }
+
+  return root;
+}
@@ -0,0 +1,117 @@
+/**
+ * - `BSON_TYPE_NOT_ALLOWED`: `bsonType` is set with `.meta()` on a schema
+ *   other than `z.unknown()`.
+ * - `TYPE_CONFLICT`: a schema has both `type` and `bsonType`.
+ * - `UNREPRESENTABLE_TYPE`: a type has no JSON Schema equivalent (e.g.
+ *   `z.symbol()`).
+ * - `BIGINT_OUT_OF_RANGE`: a `z.bigint()` bound is outside the 64-bit range,
+ *   or can't be represented exactly as a `double`.
+ * - `MAP_KEY_NOT_STRING`: `z.map()` keys aren't strings, but the map is
+ *   stored as an object.
+ * - `PATTERN_UNSUPPORTED`: a regex pattern uses syntax MongoDB's regex
+ *   engine doesn't support.
+ * - `DISCRIMINATOR_OVERLAP`: options of a `z.discriminatedUnion()` accept
+ *   the same discriminator value.
+ * - `ENCRYPTION_UNSUPPORTED`: a field can't be encrypted as declared, e.g.
+ *   it's inside an array or has no single BSON type.
+ */
+export type ZodToMongoSchemaErrorCode =
+  | "BSON_TYPE_NOT_ALLOWED"
+  | "TYPE_CONFLICT"
+  | "UNREPRESENTABLE_TYPE"
+  | "BIGINT_OUT_OF_RANGE"
+  | "MAP_KEY_NOT_STRING"
+  | "PATTERN_UNSUPPORTED"
+  | "DISCRIMINATOR_OVERLAP"
+  | "ENCRYPTION_UNSUPPORTED";
+
+/**
+ * Thrown when a Zod schema can't be converted in strict mode. The message
+ * starts with the path of the failing property, so it can be found in large
+ * schemas.
+ *
+ * @example
+ * try {
+ *   zodToMongoSchema(orderSchema);
+ * } catch (error) {
+ *   if (error instanceof ZodToMongoSchemaError) {
+ *     console.error(error.path, error.code); // "items[].sku" "UNREPRESENTABLE_TYPE"
+ *   }
+ *   throw error;
+ * }
+ */
+export class ZodToMongoSchemaError extends Error {
+  /**
+   * The property path, with `[]` for array items and `{}` for record or map
+   * values (e.g. `orders[].items[].sku`). Empty for the root schema.
+   */
+  readonly path: string;
+
+  /** The failing schema's Zod type (e.g. `"symbol"`), if known */
+  readonly zodType: string | undefined;
+
+  readonly code: ZodToMongoSchemaErrorCode;
+
+  constructor(
+    code: ZodToMongoSchemaErrorCode,
+    message: string,
+    path: string,
+    zodType?: string,
+  ) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "ZodToMongoSchemaError";
+    this.code = code;
+    this.path = path;
+    this.zodType = zodType;
+  }
+}
+
+/**
+ * Formats a path in the converted JSON Schema (e.g.
+ * `["properties", "tags", "items"]`) as a property path (e.g. `tags[]`).
+ */
+export function formatSchemaPath(path: readonly (string | number)[]): string {
+  let formatted = "";
+
+  for (let index = 0; index < path.length; index++) {
+    const segment = path[index];
+    const next = path[index + 1];
+
+    switch (segment) {
+      case "properties": {
+        if (next === undefined) break;
+        formatted += formatted ? `.${next}` : String(next);
+        index++;
+        break;
+      }
+      case "items":
+      case "additionalItems": {
+        // Tuple items are indexed
+        if (typeof next === "number") {
+          formatted += `[${next}]`;
+          index++;
+        } else {
+          formatted += "[]";
+        }
+        break;
+      }
+      case "patternProperties": {
+        formatted += "{}";
+        index++;
+        break;
+      }
+      case "additionalProperties": {
+        formatted += "{}";
+        break;
+      }
+      case "propertyNames": {
+        formatted += "{key}";
+        break;
+      }
+      // Keywords like `anyOf` and `allOf` don't change the property, so they
+      // and their index are skipped
+    }
+  }
+
+  return formatted;
+}
@@ -0,0 +1,46 @@
+/**
+ * MongoDB adds an `_id` to inserted documents that don't have one, so
+ * `zodToMongoSchema` allows it in root objects. The schemas it adds are
+ * tracked here, so generators can leave them out without mistaking a
+ * user-defined `_id` for one.
+ */
+
+import type { MongoSchema } from "./zod.js";
+
+/** The `_id` schemas added to root objects */
+const ALLOWED_IDS = new WeakSet<MongoSchema>();
+
+/** Returns a new `_id` schema that accepts any value, marked as added */
+export function allowedId(): MongoSchema {
+  const schema: MongoSchema = {};
+  ALLOWED_IDS.add(schema);
+  return schema;
+}
+
+/** Whether a property schema is an `_id` added by `zodToMongoSchema` */
+export function isAllowedId(schema: MongoSchema | undefined): boolean {
+  return schema !== undefined && ALLOWED_IDS.has(schema);
+}
+
+/**
+ * Deep-copies a converted schema, keeping the `_id`s added to root objects
+ * (including each option of a root union) marked.
+ */
+export function cloneSchema(schema: MongoSchema): MongoSchema {
+  const clone = structuredClone(schema);
+  _remarkIds(schema, clone);
+  return clone;
+}
+
+/** @internal */
+function _remarkIds(schema: MongoSchema, clone: MongoSchema) {
+  if (isAllowedId(schema.properties?._id)) {
+    clone.properties!._id = allowedId();
+  }
+
+  for (const key of ["anyOf", "oneOf"] as const) {
+    for (const [index, option] of (schema[key] ?? []).entries()) {
+      _remarkIds(option, clone[key]![index]!);
+    }
+  }
+}
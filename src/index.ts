@@ -2,6 +2,19 @@
 
 import * as z4 from "zod/v4/core";
 
+import {
+  formatSchemaPath,
+  ZodToMongoSchemaError,
+  type ZodToMongoSchemaErrorCode,
+} from "./errors.js";
+import { allowedId } from "./id.js";
+import {
+  escapeRegExp,
+  inlineFlags,
+  type PcrePattern,
+  toPcrePattern,
+} from "./pattern.js";
+import { helperBSONType } from "./schemas.js";
 import type { MongoSchema } from "./zod.js";
 
 /**
@@ -10,18 +23,244 @@ import type { MongoSchema } from "./zod.js";
 export interface ZodToMongoSchemaOptions {
   /**
    * When `true` (default), only allows `bsonType` on `z.unknown()` schemas
-   * and throws on unrepresentable types (like `z.symbol()`).
-   * `z.date()` is always auto-mapped to `{ bsonType: "date" }`.
+   * and throws on unrepresentable types (like `z.symbol()`), on
+   * `z.bigint()` bounds outside the 64-bit range, on non-string `z.map()`
+   * keys stored as an object, and on regex patterns MongoDB can't run.
+   * `z.date()` is always auto-mapped to `{ bsonType: "date" }`, `z.bigint()`
+   * to `{ bsonType: "long" }`, and BSON helpers like `zObjectId()` to their
+   * own BSON types.
    *
    * When `false`, allows `bsonType` on any schema, enabling types like
    * `z.instanceof(Uint8Array)` to be converted (they produce empty schemas
-   * without a `bsonType` override).
+   * without a `bsonType` override), and drops out-of-range `z.bigint()`
+   * bounds and non-string `z.map()` key schemas. Regex patterns MongoDB
+   * can't run are kept, with a warning.
    *
    * @default true
    */
   strict?: boolean;
+
+  /**
+   * How many times a recursive schema (e.g. via `z.lazy()` or a getter) is
+   * unrolled before `recursionFallback` is used in its place. MongoDB does
+   * not support `$ref`, so recursive schemas can only be validated up to a
+   * fixed depth.
+   *
+   * @default 3
+   */
+  recursionDepth?: number;
+
+  /**
+   * The schema used in place of a recursive reference once `recursionDepth`
+   * is reached. Defaults to an empty (permissive) schema, which accepts any
+   * value at the cutoff.
+   *
+   * @default {}
+   */
+  recursionFallback?: MongoSchema;
+
+  /**
+   * How `z.map()` is stored. With `"object"` (the driver's own encoding of a
+   * `Map`), keys become field names, so they must be strings. With
+   * `"entries"`, a map becomes an array of `{ k, v }` documents, which allows
+   * any key type.
+   *
+   * @default "object"
+   */
+  mapMode?: "object" | "entries";
+
+  /**
+   * Which Zod string formats (e.g. `z.email()`, `z.url()`) are validated
+   * with a `pattern`, since MongoDB doesn't support `format`. Set a format to
+   * `false` to leave it unvalidated in the collection, e.g. when Zod's email
+   * pattern is stricter than the data already stored.
+   *
+   * @default {} (all formats are validated)
+   */
+  stringFormats?: Partial<Record<z4.$ZodStringFormats, boolean>>;
+
+  /**
+   * Called for every part of the Zod schema that isn't validated the same
+   * way by MongoDB, e.g. removed keywords or types converted to `{}`, so
+   * nothing is lost silently. By default, only unsupported regex patterns
+   * are reported, with `console.warn`.
+   */
+  onDiagnostic?: (diagnostic: MongoSchemaDiagnostic) => void;
+
+  /**
+   * When `true`, conversion continues past errors (like in non-strict mode)
+   * so that every error in the schema is found, and they're thrown together
+   * as an `AggregateError` of `ZodToMongoSchemaError`s.
+   *
+   * @default false
+   */
+  collectErrors?: boolean;
+
+  /**
+   * With `"partial"`, `required` is dropped at every level, so the schema
+   * validates partial documents (e.g. a PATCH payload) rather than whole
+   * ones. To validate `$set` payloads with dotted paths, use
+   * `zodToMongoSetSchema`.
+   *
+   * @default "document"
+   */
+  mode?: "document" | "partial";
+
+  /**
+   * Whether the schema validates what Zod parses (`"input"`) or what it
+   * outputs (`"output"`). Documents are usually stored after parsing, so
+   * `"output"` converts `.default()` fields as required, and `.pipe()`s and
+   * `z.codec()`s as their output schema.
+   *
+   * The output of `.transform()` is unknown, so it must be followed by a
+   * `.pipe()`, or have its `bsonType` set with `.meta()`. It's otherwise an
+   * unrepresentable type.
+   *
+   * @default "output"
+   */
+  io?: "input" | "output";
+
+  /**
+   * How fields with `encrypt` in their `.meta()` are validated. With
+   * `"binData"`, as the ciphertext MongoDB stores. With `"plaintext"`, like
+   * any other field, e.g. to validate documents before the driver encrypts
+   * them.
+   *
+   * @default "binData"
+   */
+  encryptedFields?: "binData" | "plaintext";
+
+  /**
+   * Whether objects accept fields their schema doesn't list, e.g. fields
+   * added by other services or left from older versions:
+   *
+   * - `"strict"`: `z.object()`s reject them, like `z.strictObject()`s.
+   * - `"strip"`: only `z.strictObject()`s reject them. Zod strips them from
+   *   `z.object()`s when parsing, but documents may already have them.
+   * - `"passthrough"`: every object accepts them.
+   *
+   * `z.looseObject()` and `.catchall()` always keep their own schema for
+   * them, and `.meta({ unknownKeys })` sets this for a single object. Root
+   * objects that reject unknown fields always accept `_id`, which MongoDB
+   * adds to inserted documents.
+   *
+   * @default "strict", or "strip" with `io: "input"`
+   */
+  unknownKeys?: "strict" | "strip" | "passthrough";
+}
+
+/**
+ * - `KEYWORD_STRIPPED`: a keyword MongoDB doesn't support was removed.
+ * - `UNREPRESENTABLE_TYPE`: a type with no JSON Schema equivalent now
+ *   accepts any value (only in non-strict mode).
+ * - `PRECISION_AMBIGUOUS`: a number couldn't be mapped to a BSON numeric
+ *   type, so it accepts any of them.
+ * - `BOUND_ROUNDED`: a `z.bigint()` bound couldn't be represented exactly as
+ *   a `double`, so it was rounded toward the values it allows (only in
+ *   non-strict mode).
+ * - `PATTERN_UNSUPPORTED`: a regex pattern uses syntax MongoDB's regex
+ *   engine doesn't support (only in non-strict mode).
+ * - `RECURSION_TRUNCATED`: a recursive schema was cut off at
+ *   `recursionDepth`.
+ * - `DISCRIMINATOR_OVERLAP`: options of a `z.discriminatedUnion()` accept
+ *   the same discriminator value, so it's an `anyOf` rather than a `oneOf`
+ *   (only in non-strict mode).
+ */
+export type MongoSchemaDiagnosticCode =
+  | "KEYWORD_STRIPPED"
+  | "UNREPRESENTABLE_TYPE"
+  | "PRECISION_AMBIGUOUS"
+  | "BOUND_ROUNDED"
+  | "PATTERN_UNSUPPORTED"
+  | "RECURSION_TRUNCATED"
+  | "DISCRIMINATOR_OVERLAP";
+
+/**
+ * Something that's validated differently by the converted schema than by the
+ * Zod schema. `warning`s lose validation, while `info`s only lose
+ * annotations (e.g. `default`) or were asked for (e.g. `stringFormats`).
+ */
+export interface MongoSchemaDiagnostic {
+  /** The path to the affected schema or keyword in the converted schema */
+  path: (string | number)[];
+  severity: "warning" | "info";
+  code: MongoSchemaDiagnosticCode;
+  message: string;
+}
+
+/** A diagnostic recorded on a schema, before its path is known */
+type PendingDiagnostic = Omit<MongoSchemaDiagnostic, "path"> & {
+  keyword?: string;
+};
+
+/** @internal */
+type ConversionSettings = Required<ZodToMongoSchemaOptions> & {
+  /** Throws the error, or collects it with `collectErrors` */
+  fail: (error: ZodToMongoSchemaError) => void;
+};
+
+/**
+ * Where the errors and diagnostics of the schema being converted go, since
+ * their path is only known by the caller.
+ *
+ * @internal
+ */
+interface Reporter {
+  strict: boolean;
+  fail: (code: ZodToMongoSchemaErrorCode, message: string) => void;
+  report: (diagnostic: PendingDiagnostic) => void;
+}
+
+/**
+ * Diagnostics found during conversion are recorded on the schema under this
+ * key, and reported with their final path by `_sanitizeSchema`, which also
+ * removes them. This way, inlined schemas report them wherever they're used.
+ */
+const DIAGNOSTICS_KEY = "~diagnostics";
+
+/**
+ * Marks the schema of a `.transform()`, whose output is unknown. Its pipe
+ * removes the mark and reports it, so `_sanitizeSchema` only finds it on
+ * transforms outside a pipe.
+ */
+const TRANSFORM_KEY = "~transform";
+
+/**
+ * Keywords that don't affect validation, so removing them only loses
+ * information.
+ */
+const ANNOTATION_KEYWORDS = new Set([
+  "$comment",
+  "$id",
+  "contentEncoding",
+  "contentMediaType",
+  "default",
+  "deprecated",
+  "examples",
+  "id",
+  "readOnly",
+  "writeOnly",
+]);
+
+/** @internal */
+function _markDiagnostic(json: any, diagnostic: PendingDiagnostic) {
+  json[DIAGNOSTICS_KEY] = [...(json[DIAGNOSTICS_KEY] ?? []), diagnostic];
 }
 
+/**
+ * Index, encryption and unknown keys hints from `.meta()`, which aren't JSON
+ * Schema keywords
+ */
+const HINT_KEYWORDS = new Set([
+  "encrypt",
+  "expireAfterSeconds",
+  "index",
+  "indexes",
+  "sparse",
+  "unique",
+  "unknownKeys",
+]);
+
 /**
  * MongoDB available JSON Schema keywords
  * @see https://www.mongodb.com/docs/manual/reference/operator/query/jsonSchema/#available-keywords
@@ -58,6 +297,14 @@ const AVAILABLE_KEYWORDS = new Set([
   "uniqueItems",
 ] as const);
 
+/** The bounds Zod adds to `z.float32()` and `z.float64()` */
+const FLOAT_LIMITS = new Set([
+  -3.402_823_466_385_288_6e38,
+  3.402_823_466_385_288_6e38,
+  -Number.MAX_VALUE,
+  Number.MAX_VALUE,
+]);
+
 /** @internal */
 function _inferMongoNumericType(json: Record<string, any>) {
   const type = json.type ?? json.bsonType;
@@ -159,6 +406,156 @@ function _inferMongoNumericType(json: Record<string, any>) {
   return type;
 }
 
+/**
+ * The `double` next to `value` (which isn't `0`), away from or toward `0`.
+ *
+ * @internal
+ */
+function _adjacentDouble(value: number, awayFromZero: boolean) {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  // The bits of a `double` (after its sign) grow with its magnitude
+  const bits = view.getBigInt64(0);
+  view.setBigInt64(0, awayFromZero ? bits + 1n : bits - 1n);
+  return view.getFloat64(0);
+}
+
+/** @internal */
+function _bigintBounds(
+  bag: Record<string, any>,
+  { strict, fail, report }: Reporter,
+) {
+  const INT64_MIN = -9_223_372_036_854_775_808n;
+  const INT64_MAX = 9_223_372_036_854_775_807n;
+
+  const bounds: Record<string, number | boolean> = {};
+
+  const strip = (keyword: string, message: string) =>
+    report({
+      severity: "warning",
+      code: "KEYWORD_STRIPPED",
+      keyword,
+      message: `${message} It was removed.`,
+    });
+
+  const toNumber = (keyword: string, value: bigint) => {
+    if (value < INT64_MIN || value > INT64_MAX) {
+      const message = `\`z.bigint()\` ${keyword} ${value} is outside the 64-bit range of BSON \`long\`.`;
+      if (strict) return fail("BIGINT_OUT_OF_RANGE", message);
+      return strip(keyword, message);
+    }
+
+    const number = Number(value);
+    if (BigInt(number) === value) return number;
+
+    // Bounds are plain numbers in JSON Schema, which are `double`s
+    const message = `\`z.bigint()\` ${keyword} ${value} can't be represented exactly as a \`double\`.`;
+    if (strict) return fail("BIGINT_OUT_OF_RANGE", message);
+    // A rounded `multipleOf` would accept other values entirely
+    if (keyword === "multipleOf") return strip(keyword, message);
+
+    // Rounded toward the values the bound allows, so it rejects a few of them
+    // rather than accepting values outside it
+    const rounded =
+      BigInt(number) < value === (keyword === "minimum")
+        ? _adjacentDouble(number, number > 0 === (keyword === "minimum"))
+        : number;
+    report({
+      severity: "warning",
+      code: "BOUND_ROUNDED",
+      keyword,
+      message: `${message} It was rounded to ${BigInt(rounded)}.`,
+    });
+    return rounded;
+  };
+
+  // `exclusiveMinimum`/`exclusiveMaximum` are booleans in draft 4, so only
+  // the stricter of each pair of bounds is kept
+  const exclusiveLower =
+    bag.exclusiveMinimum !== undefined &&
+    (bag.minimum === undefined || bag.exclusiveMinimum >= bag.minimum);
+  const exclusiveUpper =
+    bag.exclusiveMaximum !== undefined &&
+    (bag.maximum === undefined || bag.exclusiveMaximum <= bag.maximum);
+  const lower = exclusiveLower ? bag.exclusiveMinimum : bag.minimum;
+  const upper = exclusiveUpper ? bag.exclusiveMaximum : bag.maximum;
+
+  // The full `int64` range (e.g. from `z.int64()`) is implied by `long`
+  if (typeof lower === "bigint" && lower !== INT64_MIN) {
+    const minimum = toNumber("minimum", lower);
+    if (minimum !== undefined) {
+      bounds.minimum = minimum;
+      if (exclusiveLower) bounds.exclusiveMinimum = true;
+    }
+  }
+
+  if (typeof upper === "bigint" && upper !== INT64_MAX) {
+    const maximum = toNumber("maximum", upper);
+    if (maximum !== undefined) {
+      bounds.maximum = maximum;
+      if (exclusiveUpper) bounds.exclusiveMaximum = true;
+    }
+  }
+
+  if (typeof bag.multipleOf === "bigint") {
+    const multipleOf = toNumber("multipleOf", bag.multipleOf);
+    if (multipleOf !== undefined) bounds.multipleOf = multipleOf;
+  }
+
+  return bounds;
+}
+
+/**
+ * Converts the `anyOf` of a `z.discriminatedUnion()` to a `oneOf`, with each
+ * option's discriminator pinned to the values it accepts, unless options
+ * accept the same value (which `oneOf` would reject).
+ *
+ * @internal
+ */
+function _discriminatedUnion(
+  definition: Record<string, any>,
+  jsonSchema: Record<string, any>,
+  { strict, fail, report }: Reporter,
+) {
+  const { discriminator, options } = definition;
+  const optionValues = (options as z4.$ZodType[]).map((option) => [
+    ...(option._zod.propValues?.[discriminator] ?? []),
+  ]);
+
+  const owners = new Map<unknown, number>();
+  for (const [index, values] of optionValues.entries()) {
+    for (const value of values) {
+      const owner = owners.get(value);
+      if (owner === undefined) {
+        owners.set(value, index);
+        continue;
+      }
+
+      const shown = typeof value === "string" ? `"${value}"` : String(value);
+      const message = `Options ${owner} and ${index} of the discriminated union both accept \`${discriminator}\` ${shown}, so documents can't be told apart.`;
+      if (strict) return fail("DISCRIMINATOR_OVERLAP", message);
+
+      return report({
+        severity: "warning",
+        code: "DISCRIMINATOR_OVERLAP",
+        message: `${message} It was converted to \`anyOf\` rather than \`oneOf\`.`,
+      });
+    }
+  }
+
+  if (!Array.isArray(jsonSchema.anyOf)) return;
+
+  for (const [index, option] of jsonSchema.anyOf.entries()) {
+    // An optional discriminator accepts `undefined`, i.e. a missing field
+    const values = optionValues[index]!.filter((value) => value !== undefined);
+    const property = option.properties?.[discriminator];
+    if (property && values.length > 0) property.enum = values;
+  }
+
+  jsonSchema.oneOf = jsonSchema.anyOf;
+  delete jsonSchema.anyOf;
+}
+
 /** @internal */
 function _isKeywordMap(key: string, value: any): boolean {
   if (!value || typeof value !== "object") return false;
@@ -223,17 +620,398 @@ function _isKeywordMap(key: string, value: any): boolean {
   }
 }
 
+/** @internal */
+function _resolveReference(reference: string, root: Record<string, any>) {
+  if (reference === "#") return root;
+
+  const prefix = "#/definitions/";
+  if (!reference.startsWith(prefix)) return;
+
+  return root.definitions?.[reference.slice(prefix.length)];
+}
+
+/** @internal */
+function _recursionDiagnostic(depth: number): PendingDiagnostic {
+  return {
+    severity: "info",
+    code: "RECURSION_TRUNCATED",
+    message: `A recursive schema was cut off at \`recursionDepth\` (${depth}), so \`recursionFallback\` is used from here on.`,
+  };
+}
+
+/** @internal */
+function _inlineReferences(
+  schema: any,
+  root: Record<string, any>,
+  depth: number,
+  fallback: MongoSchema,
+  expansions: ReadonlyMap<string, number> = new Map(),
+): any {
+  if (Array.isArray(schema)) {
+    return schema.map((element) =>
+      _inlineReferences(element, root, depth, fallback, expansions),
+    );
+  }
+
+  // Primitive values stay as-is
+  if (schema === null || typeof schema !== "object") return schema;
+
+  // A `$ref` that isn't a string is a property named "$ref"
+  const reference = typeof schema.$ref === "string" ? schema.$ref : undefined;
+
+  // Recurse into everything except `definitions`, which are only ever
+  // reached through a `$ref` and are dropped from the output.
+  const inlined: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "definitions" && schema === root) continue;
+    if (key === "$ref" && reference !== undefined) continue;
+    inlined[key] = _inlineReferences(value, root, depth, fallback, expansions);
+  }
+
+  if (reference === undefined) return inlined;
+
+  const target = _resolveReference(reference, root);
+
+  // Leave unknown references for `_sanitizeSchema` to strip
+  if (!target) return { $ref: reference, ...inlined };
+
+  // Expansions are counted per path, so a schema reused across sibling
+  // fields is inlined in full while a recursive one is cut off at `depth`.
+  const count = expansions.get(reference) ?? 0;
+  if (count >= depth) {
+    const truncated = { ...structuredClone(fallback), ...inlined };
+    _markDiagnostic(truncated, _recursionDiagnostic(depth));
+    return truncated;
+  }
+
+  const nextExpansions = new Map(expansions).set(reference, count + 1);
+  const resolved = _inlineReferences(
+    target,
+    root,
+    depth,
+    fallback,
+    nextExpansions,
+  );
+
+  // Keywords next to `$ref` (e.g. `description` from `.meta()`) win, but
+  // diagnostics from both are kept
+  const merged = { ...resolved, ...inlined };
+  const diagnostics = [
+    ...(resolved[DIAGNOSTICS_KEY] ?? []),
+    ...(inlined[DIAGNOSTICS_KEY] ?? []),
+  ];
+  if (diagnostics.length > 0) merged[DIAGNOSTICS_KEY] = diagnostics;
+  return merged;
+}
+
+/**
+ * Fails (when `strict`) if parts of a pattern couldn't be rewritten for
+ * PCRE, or reports a diagnostic for them otherwise.
+ *
+ * @internal
+ */
+function _checkPattern(
+  { unsupported }: PcrePattern,
+  original: string,
+  { strict, fail, report }: Reporter,
+  keyword?: string,
+) {
+  if (unsupported.length === 0) return;
+
+  const message = `Pattern ${original} uses ${unsupported.join(" and ")}, which MongoDB's regex engine (PCRE) doesn't support.`;
+  if (strict) return fail("PATTERN_UNSUPPORTED", message);
+
+  report({
+    severity: "warning",
+    code: "PATTERN_UNSUPPORTED",
+    message,
+    ...(keyword === undefined ? {} : { keyword }),
+  });
+}
+
+/** @internal */
+function _keywordDiagnostic(
+  schema: Record<string, any>,
+  key: string,
+): PendingDiagnostic | undefined {
+  // Always present, and `format`s are handled during conversion
+  if (key === "$schema" || key === "format") return;
+
+  // Read by `zodToMongoIndexes` and the encryption generators instead
+  if (HINT_KEYWORDS.has(key)) return;
+
+  const message =
+    key === "$ref"
+      ? `\`$ref\` ${schema.$ref} couldn't be inlined, so it was removed.`
+      : `\`${key}\` isn't supported by MongoDB, so it was removed.`;
+
+  return {
+    severity: ANNOTATION_KEYWORDS.has(key) ? "info" : "warning",
+    code: "KEYWORD_STRIPPED",
+    keyword: key,
+    message,
+  };
+}
+
+/** @internal */
+function _unknownOutput({ strict, fail, report }: Reporter) {
+  const message = "The output type of `.transform()` is unknown";
+
+  if (strict) {
+    return fail(
+      "UNREPRESENTABLE_TYPE",
+      `${message}. Add a \`.pipe()\` with a schema for it, or set its \`bsonType\` with \`.meta()\`.`,
+    );
+  }
+
+  report({
+    severity: "warning",
+    code: "UNREPRESENTABLE_TYPE",
+    message: `${message}, so it was converted to an empty schema, which accepts any value.`,
+  });
+}
+
+/** @internal */
+function _precisionDiagnostic(
+  type: string,
+  json: Record<string, any>,
+): PendingDiagnostic | undefined {
+  if (type === "integer") {
+    return {
+      severity: "warning",
+      code: "PRECISION_AMBIGUOUS",
+      message:
+        "This integer doesn't fit BSON `int` or `long`, so it was converted to `number`, which also accepts non-integers.",
+    };
+  }
+
+  // `z.float32()` and `z.float64()` with custom bounds look like `z.number()`
+  if ([json.minimum, json.maximum].some((bound) => FLOAT_LIMITS.has(bound))) {
+    return {
+      severity: "info",
+      code: "PRECISION_AMBIGUOUS",
+      message:
+        "This float has custom bounds, so it can't be told apart from `z.number()` and was converted to `number`, which also accepts `int`, `long` and `decimal`.",
+    };
+  }
+}
+
+/**
+ * The type each keyword applies to. Values of other types ignore it, which is
+ * what allows folding a union of types into a single schema.
+ */
+const TYPE_KEYWORDS: Record<string, string> = {
+  maxLength: "string",
+  minLength: "string",
+  pattern: "string",
+  exclusiveMaximum: "number",
+  exclusiveMinimum: "number",
+  maximum: "number",
+  minimum: "number",
+  multipleOf: "number",
+  additionalItems: "array",
+  items: "array",
+  maxItems: "array",
+  minItems: "array",
+  uniqueItems: "array",
+  additionalProperties: "object",
+  dependencies: "object",
+  maxProperties: "object",
+  minProperties: "object",
+  patternProperties: "object",
+  properties: "object",
+  required: "object",
+};
+
+/** JSON Schema types, which can be used with `type` rather than `bsonType` */
+const JSON_SCHEMA_TYPES = new Set([
+  "array",
+  "boolean",
+  "null",
+  "number",
+  "object",
+  "string",
+]);
+
+/**
+ * Keywords that depend on each other, so a schema can only be merged into
+ * another if they have the same ones.
+ */
+const KEYWORD_GROUPS = [
+  ["type", "bsonType"],
+  ["minimum", "exclusiveMinimum"],
+  ["maximum", "exclusiveMaximum"],
+  ["items", "additionalItems"],
+  ["properties", "patternProperties", "additionalProperties"],
+];
+
+/** @internal */
+function _isSameSchema(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** @internal */
+function _uniqueSchemas(schemas: any[]) {
+  return schemas.filter(
+    (schema, index) =>
+      schemas.findIndex((other) => _isSameSchema(other, schema)) === index,
+  );
+}
+
+/** @internal */
+function _typeFamily(type: string) {
+  if (["decimal", "double", "int", "long", "number"].includes(type)) {
+    return "number";
+  }
+  return type === "boolean" ? "bool" : type;
+}
+
+/**
+ * Whether `source` can be merged into `target` without changing what either
+ * validates, i.e. their keywords don't conflict.
+ *
+ * @internal
+ */
+function _canMerge(target: Record<string, any>, source: Record<string, any>) {
+  const conflicts = Object.keys(source).some(
+    (key) => key in target && !_isSameSchema(target[key], source[key]),
+  );
+  if (conflicts) return false;
+
+  return KEYWORD_GROUPS.every(
+    (group) =>
+      !group.some((key) => key in source) ||
+      !group.some((key) => key in target) ||
+      group.every((key) => _isSameSchema(target[key], source[key])),
+  );
+}
+
+/**
+ * Folds the options of a union of types (e.g. a nullable field) into a
+ * single schema with a list of types, if every keyword of an option only
+ * applies to its own types. Returns `undefined` for other unions, since their
+ * options can't be told apart.
+ *
+ * @internal
+ */
+function _foldTypes(options: Record<string, any>[]) {
+  const optionTypes = options.map((option) =>
+    [option.type ?? option.bsonType].flat().filter(Boolean),
+  );
+  const families = optionTypes.map(
+    (types) => new Set(types.map((type) => _typeFamily(type))),
+  );
+
+  const keywords: Record<string, any> = {};
+  for (const [index, option] of options.entries()) {
+    // An option without a type (or with both) accepts more than its keywords
+    if ((option.type === undefined) === (option.bsonType === undefined)) {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(option)) {
+      if (key === "type" || key === "bsonType") continue;
+
+      const family = TYPE_KEYWORDS[key];
+      const isShared = families.some(
+        (other, otherIndex) =>
+          otherIndex !== index && family !== undefined && other.has(family),
+      );
+      if (family === undefined || isShared) return;
+
+      keywords[key] = value;
+    }
+  }
+
+  const types = [...new Set(optionTypes.flat())];
+  const list = types.length === 1 ? types[0] : types;
+
+  return types.every((type) => JSON_SCHEMA_TYPES.has(type))
+    ? { type: list, ...keywords }
+    : {
+        bsonType: Array.isArray(list)
+          ? list.map((type) => (type === "boolean" ? "bool" : type))
+          : list,
+        ...keywords,
+      };
+}
+
+/**
+ * Makes a sanitized schema more compact without changing what it validates:
+ * duplicate `anyOf` and `allOf` options are removed, unions of types (e.g.
+ * nullable fields) become a list of types, and `allOf` branches that don't
+ * conflict with the schema are merged into it.
+ *
+ * @internal
+ */
+function _compactSchema(schema: Record<string, any>) {
+  let compacted = schema;
+
+  if (Array.isArray(compacted.anyOf)) {
+    const { anyOf, ...rest } = compacted;
+    const options = _uniqueSchemas(anyOf);
+    // An empty option accepts any value, so the others don't matter
+    const folded = options.some((option) => Object.keys(option).length === 0)
+      ? {}
+      : options.length === 1
+        ? options[0]
+        : _foldTypes(options);
+
+    compacted =
+      folded && _canMerge(rest, folded)
+        ? { ...folded, ...rest }
+        : { ...rest, anyOf: options };
+  }
+
+  if (Array.isArray(compacted.allOf)) {
+    const { allOf, ...rest } = compacted;
+    const branches: Record<string, any>[] = [];
+
+    for (const branch of _uniqueSchemas(allOf)) {
+      if (_canMerge(rest, branch)) {
+        Object.assign(rest, branch);
+      } else {
+        branches.push(branch);
+      }
+    }
+
+    compacted = branches.length > 0 ? { ...rest, allOf: branches } : rest;
+  }
+
+  return compacted;
+}
+
 /** @internal */
 function _sanitizeSchema(
   schema: any,
+  settings: ConversionSettings,
+  path: (string | number)[] = [],
   inKeywordMap = false,
   inPropertiesMap = false,
 ): any {
+  const { strict, onDiagnostic } = settings;
+  const report = (diagnostic: PendingDiagnostic | undefined) => {
+    if (!diagnostic) return;
+    const { keyword, ...rest } = diagnostic;
+    onDiagnostic({
+      path: keyword === undefined ? path : [...path, keyword],
+      ...rest,
+    });
+  };
+  const reporter: Reporter = {
+    strict,
+    fail: (code, message) =>
+      settings.fail(
+        new ZodToMongoSchemaError(code, message, formatSchemaPath(path)),
+      ),
+    report,
+  };
+
   if (Array.isArray(schema)) {
     // If we're inside a keyword map, each element is assumed
     // to be a schema (e.g., `allOf`, `anyOf`, `items`, etc).
-    return schema.map((element) =>
-      _sanitizeSchema(element, inKeywordMap, false),
+    return schema.map((element, index) =>
+      _sanitizeSchema(element, settings, [...path, index], inKeywordMap),
     );
   }
 
@@ -242,41 +1020,113 @@ function _sanitizeSchema(
 
   const sanitized: Record<string, any> = {};
 
-  // When inside `"properties"`, keys are user-defined field names, not
-  // JSON Schema keywords. So, we preserve all keys and recurse normally.
+  // When inside `"properties"`, keys are user-defined field names (or
+  // patterns), not JSON Schema keywords. So, we preserve all keys and
+  // recurse normally.
   if (inPropertiesMap) {
     for (const [propertyKey, propertyValue] of Object.entries(schema)) {
-      sanitized[propertyKey] = _sanitizeSchema(propertyValue, false, false);
+      sanitized[propertyKey] = _sanitizeSchema(propertyValue, settings, [
+        ...path,
+        propertyKey,
+      ]);
     }
 
     return sanitized;
   }
 
+  // Encrypted fields are stored as ciphertext
+  if (schema.encrypt !== undefined && settings.encryptedFields === "binData") {
+    const { title, description } = schema;
+    return {
+      bsonType: "binData",
+      ...(title === undefined ? {} : { title }),
+      ...(description === undefined ? {} : { description }),
+    };
+  }
+
   // In normal objects, iterate through all keys
   for (const [key, value] of Object.entries(schema)) {
+    // Report diagnostics recorded during conversion
+    if (key === DIAGNOSTICS_KEY) {
+      for (const diagnostic of value as PendingDiagnostic[]) report(diagnostic);
+      continue;
+    }
+
+    // A `.transform()` outside a pipe
+    if (key === TRANSFORM_KEY) {
+      _unknownOutput(reporter);
+      continue;
+    }
+
     // If this key starts a `"properties"` map, enter properties mode
     if (key === "properties") {
-      sanitized.properties = _sanitizeSchema(value, false, true);
+      sanitized.properties = _sanitizeSchema(
+        value,
+        settings,
+        [...path, key],
+        false,
+        true,
+      );
+      continue;
+    }
+
+    // `"patternProperties"` maps are keyed by patterns instead
+    if (key === "patternProperties") {
+      const properties = _sanitizeSchema(
+        value,
+        settings,
+        [...path, key],
+        false,
+        true,
+      );
+      sanitized.patternProperties = Object.fromEntries(
+        Object.entries(properties).map(([pattern, propertySchema]) => {
+          const rewritten = toPcrePattern(pattern);
+          _checkPattern(rewritten, `/${pattern}/`, reporter);
+          return [rewritten.pattern, propertySchema];
+        }),
+      );
       continue;
     }
 
+    // Partial documents may omit any field
+    if (key === "required" && settings.mode === "partial") continue;
+
     // Skip unknown/unsupported keywords
-    if (!AVAILABLE_KEYWORDS.has(key as any)) continue;
+    if (!AVAILABLE_KEYWORDS.has(key as any)) {
+      report(_keywordDiagnostic(schema, key));
+      continue;
+    }
+
+    // Rewrite JS-only regex syntax for MongoDB's regex engine (PCRE)
+    if (key === "pattern" && typeof value === "string") {
+      const rewritten = toPcrePattern(value);
+      _checkPattern(rewritten, `/${value}/`, reporter, key);
+      sanitized.pattern = rewritten.pattern;
+      continue;
+    }
 
     // Detect if this key contains nested schemas (maps or arrays)
     const nextInKeywordMap = _isKeywordMap(key, value);
 
     // Recursively sanitize the value
-    sanitized[key] = _sanitizeSchema(value, nextInKeywordMap, false);
+    sanitized[key] = _sanitizeSchema(
+      value,
+      settings,
+      [...path, key],
+      nextInKeywordMap,
+    );
   }
 
   // Handle numeric type conversion
-  if (
-    ["integer", "number"].includes(sanitized.type) ||
-    ["integer", "number"].includes(sanitized.bsonType)
-  ) {
+  const type = sanitized.type ?? sanitized.bsonType;
+  if (type === "integer" || type === "number") {
     sanitized.bsonType = _inferMongoNumericType(sanitized);
     delete sanitized.type;
+
+    if (sanitized.bsonType === "number") {
+      report(_precisionDiagnostic(type, sanitized));
+    }
   }
 
   // For consistency, only represent `number` with keyword `type`
@@ -285,7 +1135,91 @@ function _sanitizeSchema(
     delete sanitized.bsonType;
   }
 
-  return sanitized;
+  return _compactSchema(sanitized);
+}
+
+/** @internal */
+function _unanchored(pattern: string) {
+  return pattern.replace(/^\^/, "").replace(/(?<!\\)\$$/, "");
+}
+
+/**
+ * Patterns for the string formats Zod validates in code rather than with a
+ * regex. They're approximations, but accept every value Zod accepts. Other
+ * formats use the regex Zod validates them with.
+ */
+const FORMAT_PATTERNS: Partial<
+  Record<z4.$ZodStringFormats, (definition: any) => string>
+> = {
+  // Zod parses URLs with `new URL()`, optionally checking the protocol and
+  // hostname (e.g. `z.httpUrl()`)
+  url: (definition) => {
+    const protocol = definition.protocol
+      ? _unanchored(definition.protocol.source)
+      : String.raw`[A-Za-z][\w+.-]*`;
+    if (!definition.hostname) return String.raw`^(?:${protocol}):\S*$`;
+
+    const hostname = _unanchored(definition.hostname.source);
+    return String.raw`^(?:${protocol}):\/{0,2}(?:[^\s/?#@]*@)?(?:${hostname})(?::\d*)?(?:[/?#]\S*)?$`;
+  },
+  // Three dot-separated segments, the first being a base64-encoded header
+  jwt: () => String.raw`^[A-Za-z0-9+/]+={0,2}\.[^.]*\.[^.]*$`,
+};
+
+/**
+ * Collects the patterns of a string schema's formats (e.g. `.email()`) and
+ * regex checks (e.g. `.regex()`, `.startsWith()`), skipping disabled formats.
+ *
+ * @internal
+ */
+function _stringPatterns(
+  zodSchema: z4.$ZodType,
+  stringFormats: ConversionSettings["stringFormats"],
+  reporter: Reporter,
+) {
+  const patterns = new Set<string>();
+
+  // Format schemas like `z.email()` are their own first check
+  for (const check of [zodSchema, ...(zodSchema._zod.def.checks ?? [])]) {
+    const definition = check._zod.def as any;
+    if (definition.check !== "string_format") continue;
+
+    const format = definition.format as z4.$ZodStringFormats;
+    if (stringFormats[format] === false) {
+      reporter.report({
+        severity: "info",
+        code: "KEYWORD_STRIPPED",
+        keyword: "format",
+        message: `The \`${format}\` format is disabled in \`stringFormats\`, so it isn't validated.`,
+      });
+      continue;
+    }
+
+    const formatPattern = FORMAT_PATTERNS[format]?.(definition);
+    if (formatPattern !== undefined) {
+      patterns.add(formatPattern);
+    } else if (definition.pattern) {
+      // `pattern` has no flags, so they're moved into the pattern itself
+      const regex: RegExp = definition.pattern;
+      const inlined = inlineFlags(regex);
+      _checkPattern(
+        inlined,
+        `/${regex.source}/${regex.flags}`,
+        reporter,
+        "pattern",
+      );
+      patterns.add(inlined.pattern);
+    } else {
+      reporter.report({
+        severity: "warning",
+        code: "KEYWORD_STRIPPED",
+        keyword: "format",
+        message: `The \`${format}\` format has no pattern, so it isn't validated.`,
+      });
+    }
+  }
+
+  return [...patterns];
 }
 
 /** Wrapper/transparent Zod types that just propagate their inner schema. */
@@ -298,79 +1232,389 @@ const WRAPPER_TYPES = new Set([
   "lazy",
 ]);
 
+/** @internal */
+function _isStringSchema(json: Record<string, any>): boolean {
+  if (Array.isArray(json.anyOf))
+    return json.anyOf.every((option: any) => _isStringSchema(option));
+  if (Array.isArray(json.enum)) {
+    return json.enum.every((value: unknown) => typeof value === "string");
+  }
+  return json.type === "string";
+}
+
 /**
- * Converts a Zod schema to a MongoDB-compatible JSON Schema.
- *
- * The conversion preserves all structural and validation rules
- * (e.g., `min`, `max`, `enum`), while omitting unknown or
- * unsupported keywords (e.g., `$schema`, `$ref`, `default`).
- *
- * ⚠️ Unlike `z.toJSONSchema`, this function supports `z.date()` — it is
- * automatically mapped to `{ bsonType: "date" }` since `date` is a native
- * BSON type. This is the one case where `zodToMongoSchema` intentionally
- * diverges from Zod's built-in JSON Schema conversion.
+ * Builds a pattern matching the strings that a key schema accepts, from its
+ * `enum` or `pattern`s. Returns `undefined` if any string is accepted.
  *
- * @param zodSchema The Zod schema to convert.
- * @param options Optional configuration for the conversion.
- * @returns A MongoDB-compatible JSON Schema object.
- * @throws {Error} If `bsonType` is used on non-`unknown` Zod types (when `strict: true`).
- * @throws {Error} If both `type` and `bsonType` are present simultaneously (when `strict: true`).
+ * @internal
+ */
+function _keyPattern(json: Record<string, any>): string | undefined {
+  if (Array.isArray(json.anyOf)) {
+    const patterns: (string | undefined)[] = json.anyOf.map((option: any) =>
+      _keyPattern(option),
+    );
+    if (patterns.includes(undefined)) return;
+    return patterns.map((pattern) => `(?:${pattern})`).join("|");
+  }
+
+  if (Array.isArray(json.enum)) {
+    return `^(?:${json.enum.map((value: string) => escapeRegExp(value)).join("|")})$`;
+  }
+
+  // Multiple `.regex()` checks end up in `allOf`
+  const patterns = [json, ...(json.allOf ?? [])]
+    .map((schema) => schema.pattern)
+    .filter((pattern) => typeof pattern === "string");
+
+  if (patterns.length <= 1) return patterns[0];
+
+  // All patterns must match, so each one becomes a lookahead
+  return `^${patterns.map((pattern) => String.raw`(?=[\s\S]*?(?:${pattern}))`).join("")}`;
+}
+
+/**
+ * Converts a schema nested in a `z.map()`, `z.set()` or `z.record()` key on
+ * its own, since Zod can't convert these containers' contents. Recursion
+ * through these containers is cut off at `recursionDepth`, just like `$ref`s.
+ * `path` is where the schema ends up, for errors.
  *
- * @example
- * import z from "zod";
- * import zodToMongoSchema from "zod-to-mongo-schema";
+ * @internal
+ */
+function _convertNested(
+  zodSchema: z4.$ZodType,
+  settings: ConversionSettings,
+  nesting: ReadonlyMap<z4.$ZodType, number>,
+  path: (string | number)[],
+): Record<string, any> {
+  const count = nesting.get(zodSchema) ?? 0;
+  if (count >= settings.recursionDepth) {
+    const truncated = structuredClone(settings.recursionFallback);
+    _markDiagnostic(truncated, _recursionDiagnostic(settings.recursionDepth));
+    return truncated;
+  }
+
+  const json = _toJsonSchema(
+    zodSchema,
+    settings,
+    new Map(nesting).set(zodSchema, count + 1),
+    path,
+  );
+  delete json.$schema;
+  return json;
+}
+
+/**
+ * Sets whether an object accepts unknown fields, from its catchall (which
+ * is `z.never()` for `z.strictObject()`) and the `unknownKeys` policy.
  *
- * const userSchema = z.object({
- *   _id: z.unknown().meta({ bsonType: "objectId" }),
- *   name: z.string(),
- *   age: z.number().min(18),
- *   isAdmin: z.boolean(),
- *   createdAt: z.date(), // auto-mapped to { bsonType: "date" }
- * });
- * const mongoSchema = zodToMongoSchema(userSchema);
+ * @internal
+ */
+function _applyUnknownKeys(
+  definition: any,
+  jsonSchema: Record<string, any>,
+  unknownKeys: ConversionSettings["unknownKeys"],
+) {
+  const catchall = definition.catchall?._zod.def.type;
+  // `z.looseObject()` and `.catchall()` schemas are kept
+  if (catchall !== undefined && catchall !== "never") return;
+
+  const rejected =
+    catchall === "never"
+      ? unknownKeys !== "passthrough"
+      : unknownKeys === "strict";
+  if (rejected) {
+    jsonSchema.additionalProperties = false;
+  } else {
+    delete jsonSchema.additionalProperties;
+  }
+}
+
+/**
+ * Allows `_id` in root objects that reject unknown fields or validate them
+ * with a schema, since MongoDB adds it to inserted documents that don't have
+ * one. Each option of a root union is a root object too.
  *
- * @example
- * // With strict: false, you can use bsonType on any schema
- * const schema = z.object({
- *   createdAt: z.date(), // auto-mapped to { bsonType: "date" }
- *   data: z.instanceof(Uint8Array).meta({ bsonType: "binData" }),
- * });
- * const mongoSchema = zodToMongoSchema(schema, { strict: false });
+ * @internal
  */
-function zodToMongoSchema(
-  zodSchema: z4.$ZodType,
-  options: ZodToMongoSchemaOptions = {},
-): MongoSchema {
-  if (!zodSchema) return {};
+function _allowId(schema: MongoSchema) {
+  for (const option of [...(schema.anyOf ?? []), ...(schema.oneOf ?? [])]) {
+    _allowId(option);
+  }
+
+  // `{}` accepts any value, like a missing `additionalProperties`
+  const { additionalProperties } = schema;
+  const validatesUnknownKeys =
+    additionalProperties === false ||
+    (typeof additionalProperties === "object" &&
+      Object.keys(additionalProperties).length > 0);
+  if (validatesUnknownKeys && !schema.properties?._id) {
+    schema.properties = { _id: allowedId(), ...schema.properties };
+  }
+}
 
-  const { strict = true } = options;
+/** @internal */
+function _toJsonSchema(
+  zodSchema: z4.$ZodType,
+  settings: ConversionSettings,
+  nesting: ReadonlyMap<z4.$ZodType, number> = new Map(),
+  basePath: (string | number)[] = [],
+): Record<string, any> {
+  const {
+    strict,
+    recursionDepth,
+    recursionFallback,
+    mapMode,
+    stringFormats,
+    io,
+    unknownKeys,
+  } = settings;
 
   // Convert to JSON Schema Draft 4
   const rawJsonSchema = z4.toJSONSchema(zodSchema, {
     target: "draft-4",
+    io,
     unrepresentable: "any",
     override: (context) => {
-      const definitionType = context.zodSchema._zod.def.type;
+      const definition = context.zodSchema._zod.def as any;
+      const definitionType = definition.type;
       const { jsonSchema } = context;
       const meta = z4.globalRegistry.get(context.zodSchema) as
         | Record<string, any>
         | undefined;
+      // The path of the schema's first use, which is where it's defined
+      const path = [...basePath, ...context.path];
+      const report = (diagnostic: PendingDiagnostic) =>
+        _markDiagnostic(jsonSchema, diagnostic);
+      const fail = (code: ZodToMongoSchemaErrorCode, message: string) =>
+        settings.fail(
+          new ZodToMongoSchemaError(
+            code,
+            message,
+            formatSchemaPath(path),
+            definitionType,
+          ),
+        );
+      const reporter: Reporter = { strict, fail, report };
+
+      // The output of `.transform()` can only be known from `bsonType`. It's
+      // checked by its pipe (e.g. `z.string().transform(...)`), which is
+      // converted after it and is where `.meta()` is usually set.
+      if (definitionType === "transform") {
+        if (!meta?.bsonType) jsonSchema[TRANSFORM_KEY] = true;
+        return;
+      }
+
+      if (
+        definitionType === "pipe" &&
+        definition.out._zod.def.type === "transform"
+      ) {
+        delete jsonSchema[TRANSFORM_KEY];
+        if (io === "input") {
+          // The pipe's input is converted, which `bsonType` doesn't describe
+          if (meta?.bsonType) delete jsonSchema.bsonType;
+        } else if (!meta?.bsonType) {
+          _unknownOutput(reporter);
+        }
+        return;
+      }
 
       // Auto-map z.date() → { bsonType: "date" }
       if (definitionType === "date") {
         if (!meta?.bsonType) {
           jsonSchema.bsonType = "date";
         } else if (strict) {
-          throw new Error("`bsonType` can only be used with `z.unknown()`.");
+          fail(
+            "BSON_TYPE_NOT_ALLOWED",
+            "`bsonType` can only be used with `z.unknown()`.",
+          );
+        }
+        return;
+      }
+
+      // Auto-map z.bigint() → { bsonType: "long" }
+      if (definitionType === "bigint") {
+        if (!meta?.bsonType) {
+          jsonSchema.bsonType = "long";
+          Object.assign(
+            jsonSchema,
+            _bigintBounds(context.zodSchema._zod.bag, reporter),
+          );
+        } else if (strict) {
+          fail(
+            "BSON_TYPE_NOT_ALLOWED",
+            "`bsonType` can only be used with `z.unknown()`.",
+          );
+        }
+        return;
+      }
+
+      // Auto-map BSON helpers (e.g. `zObjectId()`) → { bsonType }. They
+      // record their BSON type for their check rather than in `.meta()`.
+      const helperType = helperBSONType(context.zodSchema);
+      if (helperType) {
+        if (!meta?.bsonType) {
+          jsonSchema.bsonType = helperType;
+        } else if (strict) {
+          fail(
+            "BSON_TYPE_NOT_ALLOWED",
+            "`bsonType` can only be used with `z.unknown()`.",
+          );
         }
         return;
       }
 
+      // Zod's `format` isn't supported by MongoDB, so every format needs a
+      // `pattern`, including those Zod validates in code (e.g. `z.url()`).
+      // A `pattern` set with `.meta()` replaces them.
+      if (definitionType === "string" && meta?.pattern === undefined) {
+        const patterns = _stringPatterns(
+          context.zodSchema,
+          stringFormats,
+          reporter,
+        );
+        const allOf = (jsonSchema.allOf ?? []).filter(
+          (schema) => schema.pattern === undefined,
+        );
+
+        delete jsonSchema.pattern;
+        delete jsonSchema.allOf;
+        if (patterns.length === 1) {
+          Object.assign(jsonSchema, { pattern: patterns[0] });
+        } else {
+          // Like Zod, multiple patterns are combined with `allOf`
+          for (const pattern of patterns) {
+            allOf.push({ type: "string", pattern });
+          }
+        }
+        if (allOf.length > 0) jsonSchema.allOf = allOf;
+      }
+
+      // z.set() → an array of unique items
+      if (definitionType === "set" && !meta?.bsonType) {
+        const { minimum, maximum } = context.zodSchema._zod.bag;
+        Object.assign(jsonSchema, {
+          type: "array",
+          items: _convertNested(definition.valueType, settings, nesting, [
+            ...path,
+            "items",
+          ]),
+          uniqueItems: true,
+          ...(minimum === undefined ? {} : { minItems: minimum }),
+          ...(maximum === undefined ? {} : { maxItems: maximum }),
+        });
+        return;
+      }
+
+      // z.map() → an object keyed by the map's keys, or an array of entries
+      if (definitionType === "map" && !meta?.bsonType) {
+        const isEntries = mapMode === "entries";
+        const key = _convertNested(
+          definition.keyType,
+          settings,
+          nesting,
+          isEntries
+            ? [...path, "items", "properties", "k"]
+            : [...path, "propertyNames"],
+        );
+        const value = _convertNested(
+          definition.valueType,
+          settings,
+          nesting,
+          isEntries
+            ? [...path, "items", "properties", "v"]
+            : [...path, "additionalProperties"],
+        );
+
+        if (isEntries) {
+          Object.assign(jsonSchema, {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { k: key, v: value },
+              required: ["k", "v"],
+              additionalProperties: false,
+            },
+          });
+          return;
+        }
+
+        if (strict && !_isStringSchema(key)) {
+          fail(
+            "MAP_KEY_NOT_STRING",
+            '`z.map()` keys must be strings to be stored as an object. Use `mapMode: "entries"` instead.',
+          );
+        } else if (!_isStringSchema(key)) {
+          report({
+            severity: "warning",
+            code: "UNREPRESENTABLE_TYPE",
+            message:
+              "`z.map()` keys aren't strings, so they can't be validated as field names.",
+          });
+        }
+
+        const pattern = _isStringSchema(key) ? _keyPattern(key) : undefined;
+        Object.assign(
+          jsonSchema,
+          pattern === undefined
+            ? { type: "object", additionalProperties: value }
+            : {
+                type: "object",
+                patternProperties: { [pattern]: value },
+                additionalProperties: false,
+              },
+        );
+        return;
+      }
+
+      // Zod drops the key schema of z.record() in draft 4, so keep it as
+      // `patternProperties` when it constrains the keys
+      if (definitionType === "record" && jsonSchema.additionalProperties) {
+        const key = _convertNested(definition.keyType, settings, nesting, [
+          ...path,
+          "propertyNames",
+        ]);
+        const pattern = _isStringSchema(key) ? _keyPattern(key) : undefined;
+
+        if (pattern !== undefined) {
+          const value = jsonSchema.additionalProperties;
+          delete jsonSchema.additionalProperties;
+          jsonSchema.patternProperties = { [pattern]: value };
+          jsonSchema.additionalProperties = false;
+
+          // Records with enum keys (but not `z.partialRecord()`) require
+          // every key to be present
+          const keys = definition.keyType._zod.values as
+            | Set<unknown>
+            | undefined;
+          if (keys) {
+            jsonSchema.required = [...keys].filter(
+              (value) => typeof value === "string",
+            );
+          }
+        }
+      }
+
+      // An `additionalProperties` set with `.meta()` replaces the policy
+      if (
+        definitionType === "object" &&
+        meta?.additionalProperties === undefined
+      ) {
+        _applyUnknownKeys(
+          definition,
+          jsonSchema,
+          meta?.unknownKeys ?? unknownKeys,
+        );
+      }
+
+      // z.discriminatedUnion() → `oneOf`, since exactly one option matches
+      if (definitionType === "union" && definition.discriminator) {
+        _discriminatedUnion(definition, jsonSchema, reporter);
+      }
+
       // Detect unrepresentable types (no structural JSON Schema content).
       // Skip wrapper types (optional, nullable, etc.) that just propagate
       // their inner schema — they never add structural content themselves.
       if (
-        strict &&
         definitionType !== "unknown" &&
         definitionType !== "any" &&
         !WRAPPER_TYPES.has(definitionType) &&
@@ -383,29 +1627,254 @@ function zodToMongoSchema(
         !jsonSchema.properties &&
         !jsonSchema.items
       ) {
-        throw new Error(
-          `Unrepresentable type "${definitionType}" cannot be converted to MongoDB JSON Schema.`,
-        );
+        if (strict) {
+          fail(
+            "UNREPRESENTABLE_TYPE",
+            `Unrepresentable type "${definitionType}" cannot be converted to MongoDB JSON Schema.`,
+          );
+        } else {
+          report({
+            severity: "warning",
+            code: "UNREPRESENTABLE_TYPE",
+            message: `Unrepresentable type "${definitionType}" was converted to an empty schema, which accepts any value.`,
+          });
+        }
       }
 
-      if (strict && definitionType !== "unknown" && meta?.bsonType) {
-        throw new Error("`bsonType` can only be used with `z.unknown()`.");
+      const bsonTypeRejected =
+        strict && definitionType !== "unknown" && meta?.bsonType !== undefined;
+      if (bsonTypeRejected) {
+        fail(
+          "BSON_TYPE_NOT_ALLOWED",
+          "`bsonType` can only be used with `z.unknown()`.",
+        );
       }
 
       if (jsonSchema.type && jsonSchema.bsonType) {
-        if (strict) {
-          throw new Error(
+        // A rejected `bsonType` is already reported
+        if (strict && !bsonTypeRejected) {
+          fail(
+            "TYPE_CONFLICT",
             "Cannot specify both `type` and `bsonType` simultaneously.",
           );
         }
-        // In non-strict mode, bsonType takes precedence over type
+        // Otherwise (or when collecting errors), bsonType takes precedence
         delete jsonSchema.type;
       }
     },
   });
 
+  // Inline `$ref`s, since MongoDB doesn't support them
+  return _inlineReferences(
+    rawJsonSchema,
+    rawJsonSchema,
+    recursionDepth,
+    recursionFallback,
+  );
+}
+
+/**
+ * The default `onDiagnostic`, which only warns about patterns that are kept
+ * as-is, since MongoDB may reject them or match differently than Zod.
+ *
+ * @internal
+ */
+function _warnDiagnostic(diagnostic: MongoSchemaDiagnostic) {
+  if (diagnostic.code === "PATTERN_UNSUPPORTED") {
+    console.warn(diagnostic.message);
+  }
+}
+
+/**
+ * Converts a Zod schema to a MongoDB-compatible JSON Schema.
+ *
+ * The conversion preserves all structural and validation rules
+ * (e.g., `min`, `max`, `enum`), while omitting unknown or
+ * unsupported keywords (e.g., `$schema`, `default`), which are reported
+ * through `onDiagnostic`. Since MongoDB
+ * doesn't support `$ref`, reused schemas are inlined and recursive ones
+ * are unrolled up to `recursionDepth` levels.
+ *
+ * ⚠️ Unlike `z.toJSONSchema`, this function supports `z.date()` and
+ * `z.bigint()` — they are automatically mapped to `{ bsonType: "date" }`
+ * and `{ bsonType: "long" }` since both are native BSON types. These are
+ * the cases where `zodToMongoSchema` intentionally diverges from Zod's
+ * built-in JSON Schema conversion.
+ *
+ * @param zodSchema The Zod schema to convert.
+ * @param options Optional configuration for the conversion.
+ * @returns A MongoDB-compatible JSON Schema object.
+ * @throws {ZodToMongoSchemaError} If `bsonType` is used on non-`unknown` Zod types (when `strict: true`).
+ * @throws {ZodToMongoSchemaError} If both `type` and `bsonType` are present simultaneously (when `strict: true`).
+ * @throws {ZodToMongoSchemaError} If a `z.bigint()` bound is outside the 64-bit range (when `strict: true`).
+ * @throws {ZodToMongoSchemaError} If `z.map()` keys aren't strings with `mapMode: "object"` (when `strict: true`).
+ * @throws {ZodToMongoSchemaError} If a regex pattern uses syntax MongoDB's regex engine doesn't support (when `strict: true`).
+ * @throws {ZodToMongoSchemaError} If options of a `z.discriminatedUnion()` accept the same discriminator value (when `strict: true`).
+ * @throws {AggregateError} Of all the above errors, with `collectErrors: true`.
+ *
+ * @example
+ * import z from "zod";
+ * import zodToMongoSchema from "zod-to-mongo-schema";
+ *
+ * const userSchema = z.object({
+ *   _id: z.unknown().meta({ bsonType: "objectId" }),
+ *   name: z.string(),
+ *   age: z.number().min(18),
+ *   isAdmin: z.boolean(),
+ *   createdAt: z.date(), // auto-mapped to { bsonType: "date" }
+ * });
+ * const mongoSchema = zodToMongoSchema(userSchema);
+ *
+ * @example
+ * // With strict: false, you can use bsonType on any schema
+ * const schema = z.object({
+ *   createdAt: z.date(), // auto-mapped to { bsonType: "date" }
+ *   data: z.instanceof(Uint8Array).meta({ bsonType: "binData" }),
+ * });
+ * const mongoSchema = zodToMongoSchema(schema, { strict: false });
+ */
+function zodToMongoSchema(
+  zodSchema: z4.$ZodType,
+  options: ZodToMongoSchemaOptions = {},
+): MongoSchema {
+  if (!zodSchema) return {};
+
+  const {
+    strict = true,
+    recursionDepth = 3,
+    recursionFallback = {},
+    mapMode = "object",
+    stringFormats = {},
+    onDiagnostic = _warnDiagnostic,
+    collectErrors = false,
+    mode = "document",
+    io = "output",
+    encryptedFields = "binData",
+    unknownKeys = io === "input" ? "strip" : "strict",
+  } = options;
+
+  // Nested schemas may be converted more than once, so errors are keyed by
+  // their message (which includes the path)
+  const errors = new Map<string, ZodToMongoSchemaError>();
+  const settings: ConversionSettings = {
+    strict,
+    recursionDepth,
+    recursionFallback,
+    mapMode,
+    stringFormats,
+    onDiagnostic,
+    collectErrors,
+    mode,
+    io,
+    encryptedFields,
+    unknownKeys,
+    fail: (error) => {
+      if (!collectErrors) throw error;
+      errors.set(error.message, error);
+    },
+  };
+  const jsonSchema = _toJsonSchema(zodSchema, settings);
+
   // Sanitize to make it MongoDB-compatible
-  return _sanitizeSchema(rawJsonSchema);
+  const mongoSchema = _sanitizeSchema(jsonSchema, settings);
+  if (mode === "document") _allowId(mongoSchema);
+
+  if (errors.size > 0) {
+    throw new AggregateError(
+      [...errors.values()],
+      `Found ${errors.size} error(s) converting the Zod schema to MongoDB JSON Schema.`,
+    );
+  }
+
+  return mongoSchema;
 }
 
+export { mongoSchemaToZod, type MongoSchemaToZodOptions } from "./codegen.js";
+export {
+  type CollectionCommandOptions,
+  type CreateCollectionCommand,
+  createCollectionCommand,
+  type ModifyCollectionCommand,
+  modifyCollectionCommand,
+} from "./command.js";
+export {
+  diffSchemas,
+  type SchemaChange,
+  type SchemaChangeKind,
+  type SchemaDiff,
+} from "./diff.js";
+export {
+  type EncryptedField,
+  type EncryptedFieldsMap,
+  type EncryptionSchema,
+  type EncryptionSchemaOptions,
+  zodToEncryptedFields,
+  zodToEncryptionSchema,
+} from "./encryption.js";
+export {
+  ZodToMongoSchemaError,
+  type ZodToMongoSchemaErrorCode,
+} from "./errors.js";
+export { type MongoIndexSpec, zodToMongoIndexes } from "./indexes.js";
+export {
+  type ValidationErrorInfo,
+  validationErrorToZodIssues,
+} from "./issues.js";
+export {
+  type MongooseDefinitionOptions,
+  type MongooseSchemaDefinition,
+  type MongooseSchemaOptions,
+  type MongooseSchemaTypeOptions,
+  zodToMongooseDefinition,
+  zodToMongooseSchema,
+} from "./mongoose.js";
+export {
+  nonConformingDocumentsQuery,
+  type NonConformingQuery,
+  type NonConformingQueryOptions,
+} from "./query.js";
+export {
+  type CollectionDefinition,
+  type CollectionManifest,
+  type CollectionManifestEntry,
+  type CollectionOptions,
+  type CollectionRegistry,
+  type CollectionRegistryDiff,
+  createCollectionRegistry,
+  defineCollection,
+} from "./registry.js";
+export {
+  type BinaryLike,
+  type BSONRegExpLike,
+  type CodeLike,
+  type Decimal128Like,
+  type LongLike,
+  type ObjectIdLike,
+  type TimestampLike,
+  zBinary,
+  zDecimal128,
+  zJavascript,
+  zLong,
+  zObjectId,
+  zRegex,
+  zTimestamp,
+} from "./schemas.js";
+export { mongoDocumentType, type MongoDocumentTypeOptions } from "./typegen.js";
+export { zodToMongoSetSchema } from "./update.js";
+export {
+  type DocumentValidationIssue,
+  type DocumentValidationResult,
+  validateDocument,
+  type ValidateDocumentOptions,
+} from "./validate.js";
+export type {
+  MongoBSONType,
+  MongoEncryptedQuery,
+  MongoEncryptMeta,
+  MongoIndexDeclaration,
+  MongoIndexMeta,
+  MongoIndexType,
+  MongoSchema,
+} from "./zod.js";
+
 export default zodToMongoSchema;
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import { zodToMongoIndexes } from "./indexes.js";
+
+describe("zodToMongoIndexes", () => {
+  it("indexes fields with index hints", () => {
+    const schema = z.object({
+      email: z.email().meta({ unique: true }),
+      name: z.string().meta({ index: true }),
+      score: z.number().meta({ index: -1 }).optional(),
+      nickname: z.string().nullable().meta({ index: 1, sparse: true }),
+      location: z.unknown().meta({ bsonType: "object", index: "2dsphere" }),
+      expiresAt: z.date().meta({ expireAfterSeconds: 3600 }),
+      bio: z.string(),
+    });
+
+    expect(zodToMongoIndexes(schema)).toEqual([
+      { key: { email: 1 }, name: "email_1", unique: true },
+      { key: { name: 1 }, name: "name_1" },
+      { key: { score: -1 }, name: "score_-1" },
+      { key: { nickname: 1 }, name: "nickname_1", sparse: true },
+      { key: { location: "2dsphere" }, name: "location_2dsphere" },
+      { key: { expiresAt: 1 }, name: "expiresAt_1", expireAfterSeconds: 3600 },
+    ]);
+  });
+
+  it("uses dotted paths for nested fields and array elements", () => {
+    const schema = z.object({
+      address: z.object({ city: z.string().meta({ index: true }) }).optional(),
+      orders: z.array(
+        z.object({
+          sku: z.string().meta({ index: 1 }),
+          lines: z.array(z.object({ qty: z.int32().meta({ index: -1 }) })),
+        }),
+      ),
+    });
+
+    expect(zodToMongoIndexes(schema).map(({ key }) => key)).toEqual([
+      { "address.city": 1 },
+      { "orders.sku": 1 },
+      { "orders.lines.qty": -1 },
+    ]);
+  });
+
+  it("adds compound indexes declared on objects", () => {
+    const schema = z
+      .object({
+        tenantId: z.string(),
+        email: z.email(),
+        profile: z
+          .object({ first: z.string(), last: z.string() })
+          .meta({ indexes: [{ key: { last: 1, first: 1 }, name: "by_name" }] }),
+      })
+      .meta({
+        indexes: [{ key: { tenantId: 1, email: 1 }, unique: true }],
+      });
+
+    expect(zodToMongoIndexes(schema)).toEqual([
+      {
+        key: { tenantId: 1, email: 1 },
+        name: "tenantId_1_email_1",
+        unique: true,
+      },
+      { key: { "profile.last": 1, "profile.first": 1 }, name: "by_name" },
+    ]);
+  });
+
+  it("combines text indexes, and removes duplicates", () => {
+    const schema = z.object({
+      title: z.string().meta({ index: "text" }),
+      body: z.string().meta({ index: "text" }),
+      attachment: z.discriminatedUnion("kind", [
+        z.object({
+          kind: z.literal("image"),
+          url: z.url().meta({ index: true }),
+        }),
+        z.object({
+          kind: z.literal("link"),
+          url: z.url().meta({ index: true }),
+        }),
+      ]),
+    });
+
+    expect(zodToMongoIndexes(schema)).toEqual([
+      { key: { "attachment.url": 1 }, name: "attachment.url_1" },
+      { key: { title: "text", body: "text" }, name: "title_text_body_text" },
+    ]);
+  });
+
+  it("merges the options of indexes declared twice", () => {
+    const schema = z
+      .object({ email: z.email().meta({ index: 1 }) })
+      .meta({ indexes: [{ key: { email: 1 }, unique: true }] });
+
+    expect(zodToMongoIndexes(schema)).toEqual([
+      { key: { email: 1 }, name: "email_1", unique: true },
+    ]);
+  });
+
+  it("merges field hints into named and text indexes", () => {
+    const schema = z
+      .object({
+        tenantId: z.string(),
+        email: z.email().meta({ unique: true }),
+        title: z.string().meta({ index: "text" }),
+        body: z.string().meta({ index: "text" }),
+      })
+      .meta({
+        indexes: [
+          { key: { email: 1 }, name: "by_email" },
+          { key: { tenantId: 1, title: "text" }, name: "search" },
+        ],
+      });
+
+    expect(zodToMongoIndexes(schema)).toEqual([
+      { key: { email: 1 }, name: "by_email", unique: true },
+      {
+        key: { tenantId: 1, title: "text", body: "text" },
+        name: "search",
+      },
+    ]);
+  });
+
+  it("rejects conflicting duplicate indexes", () => {
+    const ttl = z
+      .object({ expiresAt: z.date().meta({ expireAfterSeconds: 60 }) })
+      .meta({ indexes: [{ key: { expiresAt: 1 }, expireAfterSeconds: 3600 }] });
+    const named = z.object({ a: z.string(), b: z.string() }).meta({
+      indexes: [
+        { key: { a: 1 }, name: "by_field" },
+        { key: { b: 1 }, name: "by_field" },
+      ],
+    });
+
+    expect(() => zodToMongoIndexes(ttl)).toThrowError(
+      'Index {"expiresAt":1} is declared with conflicting `expireAfterSeconds` options (3600 and 60).',
+    );
+    expect(() => zodToMongoIndexes(named)).toThrowError(
+      'Index "by_field" is declared with different keys.',
+    );
+    expect(() =>
+      zodToMongoIndexes(
+        z.object({ a: z.string(), b: z.string() }).meta({
+          indexes: [{ key: { a: "text" } }, { key: { b: "text" } }],
+        }),
+      ),
+    ).toThrowError(
+      'A collection can only have one text index, but {"a":"text"} and {"b":"text"} are declared.',
+    );
+  });
+
+  it("stops at recursive references", () => {
+    const category = z.object({
+      slug: z.string().meta({ unique: true }),
+      get children() {
+        return z.array(category);
+      },
+    });
+
+    expect(zodToMongoIndexes(category)).toEqual([
+      { key: { slug: 1 }, name: "slug_1", unique: true },
+    ]);
+  });
+});
@@ -0,0 +1,319 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as z4 from "zod/v4/core";
+
+import type { MongoIndexDeclaration, MongoIndexType } from "./zod.js";
+
+/**
+ * An index spec, as passed to the `createIndexes` command or the driver's
+ * `collection.createIndexes()`
+ * @see https://www.mongodb.com/docs/manual/reference/command/createIndexes/
+ */
+export interface MongoIndexSpec {
+  /** The indexed fields, as dotted paths from the document root */
+  key: Record<string, MongoIndexType>;
+  name: string;
+  unique?: boolean;
+  sparse?: boolean;
+  expireAfterSeconds?: number;
+}
+
+/** The options of an index, besides its key */
+type IndexOptions = Omit<MongoIndexDeclaration, "key">;
+
+/** @internal */
+interface IndexCollector {
+  /** The declared indexes, keyed by dotted paths from the document root */
+  declarations: MongoIndexDeclaration[];
+  /** The fields of the collection's text index, which can only have one */
+  textKey: Record<string, MongoIndexType>;
+  textOptions: IndexOptions;
+  /** The object schemas being walked, to stop at recursive references */
+  ancestors: Set<z4.$ZodType>;
+}
+
+/**
+ * Unwraps `.optional()`, `.nullable()`, pipes, etc., and merges the metadata
+ * of each layer, with outer layers taking precedence.
+ */
+export function unwrapWithMeta(schema: z4.$ZodType): {
+  schema: z4.$ZodType;
+  meta: z4.GlobalMeta;
+} {
+  let current = schema;
+  const layers: z4.GlobalMeta[] = [];
+
+  for (;;) {
+    const meta = z4.globalRegistry.get(current);
+    if (meta) layers.unshift(meta);
+
+    const definition = current._zod.def as any;
+    switch (definition.type) {
+      case "optional":
+      case "nullable":
+      case "nonoptional":
+      case "default":
+      case "prefault":
+      case "readonly":
+      case "catch": {
+        current = definition.innerType;
+        break;
+      }
+      case "lazy": {
+        current = definition.getter();
+        break;
+      }
+      case "pipe": {
+        // The stored value is the pipe's output, unless it's a transform
+        current =
+          definition.out._zod.def.type === "transform"
+            ? definition.in
+            : definition.out;
+        break;
+      }
+      default: {
+        return {
+          schema: current,
+          meta: Object.assign({}, ...layers),
+        };
+      }
+    }
+  }
+}
+
+/** @internal */
+function _definedOptions(options: {
+  [Key in keyof IndexOptions]?: IndexOptions[Key] | undefined;
+}): IndexOptions {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined),
+  );
+}
+
+/** @internal */
+function _indexSpec({
+  key,
+  name,
+  ...options
+}: MongoIndexDeclaration): MongoIndexSpec {
+  return {
+    key,
+    name:
+      name ??
+      Object.entries(key)
+        .map(([field, type]) => `${field}_${type}`)
+        .join("_"),
+    ...options,
+  };
+}
+
+/** @internal */
+function _sameKey(
+  left: Record<string, MongoIndexType>,
+  right: Record<string, MongoIndexType>,
+): boolean {
+  return (
+    JSON.stringify(Object.entries(left)) ===
+    JSON.stringify(Object.entries(right))
+  );
+}
+
+/** @internal */
+function _isTextIndex({ key }: MongoIndexDeclaration) {
+  return Object.values(key).includes("text");
+}
+
+/**
+ * Adds the options of a duplicate declaration of an index to `target`, since
+ * MongoDB can't create both. A name is only set when it's declared, so a
+ * generated one never conflicts.
+ *
+ * @internal
+ * @throws If they have conflicting options.
+ */
+function _mergeOptions(
+  target: IndexOptions,
+  options: IndexOptions,
+  index: string,
+) {
+  for (const [option, value] of Object.entries(options)) {
+    const current = target[option as keyof IndexOptions];
+    if (current === undefined) {
+      Object.assign(target, { [option]: value });
+    } else if (current !== value) {
+      throw new Error(
+        `${index} is declared with conflicting \`${option}\` options (${JSON.stringify(current)} and ${JSON.stringify(value)}).`,
+      );
+    }
+  }
+}
+
+/**
+ * Collects the indexes declared on `schema` and the schemas inside it.
+ *
+ * @internal
+ */
+function _collectIndexes(
+  zodSchema: z4.$ZodType,
+  path: string[],
+  collector: IndexCollector,
+) {
+  const { schema, meta } = unwrapWithMeta(zodSchema);
+  const definition = schema._zod.def as any;
+  const { index, unique, sparse, expireAfterSeconds, indexes = [] } = meta;
+
+  // Any field-level hint indexes the field
+  const hasIndex = [index, unique, sparse, expireAfterSeconds].some(
+    (hint) => hint !== undefined,
+  );
+  if (path.length > 0 && hasIndex) {
+    const field = path.join(".");
+    const type = index === undefined || index === true ? 1 : index;
+    const options = _definedOptions({ unique, sparse, expireAfterSeconds });
+
+    if (type === "text") {
+      collector.textKey[field] = type;
+      _mergeOptions(collector.textOptions, options, "The text index");
+    } else {
+      collector.declarations.push({ key: { [field]: type }, ...options });
+    }
+  }
+
+  // Indexes declared on an object are relative to it
+  for (const { key, ...options } of indexes) {
+    const absoluteKey = Object.fromEntries(
+      Object.entries(key).map(([field, type]) => [
+        [...path, field].join("."),
+        type,
+      ]),
+    );
+    collector.declarations.push({
+      key: absoluteKey,
+      ..._definedOptions(options),
+    });
+  }
+
+  switch (definition.type) {
+    case "object": {
+      if (collector.ancestors.has(schema)) return;
+
+      collector.ancestors.add(schema);
+      for (const [key, propertySchema] of Object.entries(definition.shape)) {
+        _collectIndexes(
+          propertySchema as z4.$ZodType,
+          [...path, key],
+          collector,
+        );
+      }
+      collector.ancestors.delete(schema);
+      break;
+    }
+    // Indexes on array elements' fields use the array's path
+    case "array": {
+      _collectIndexes(definition.element, path, collector);
+      break;
+    }
+    case "set": {
+      _collectIndexes(definition.valueType, path, collector);
+      break;
+    }
+    case "tuple": {
+      for (const item of [...definition.items, definition.rest]) {
+        if (item) _collectIndexes(item, path, collector);
+      }
+      break;
+    }
+    case "union": {
+      for (const option of definition.options) {
+        _collectIndexes(option, path, collector);
+      }
+      break;
+    }
+    case "intersection": {
+      _collectIndexes(definition.left, path, collector);
+      _collectIndexes(definition.right, path, collector);
+      break;
+    }
+  }
+}
+
+/**
+ * Generates the index specs declared in a Zod schema's metadata, to pass to
+ * `createIndexes`. Fields are indexed with `index`, `unique`, `sparse` or
+ * `expireAfterSeconds` in their `.meta()`, and objects can declare compound
+ * indexes on their fields with `indexes`. Fields inside arrays are indexed by
+ * their dotted path (e.g. `items.sku`), and fields indexed with `"text"`
+ * share the collection's text index.
+ *
+ * These hints are left out of the `$jsonSchema` by `zodToMongoSchema`.
+ *
+ * @param zodSchema The Zod schema of the collection's documents.
+ * @returns The index specs, with the options of duplicates merged.
+ * @throws If duplicate indexes have conflicting options, several text indexes
+ * are declared, or indexes with different keys have the same name.
+ *
+ * @example
+ * import z from "zod";
+ * import { zodToMongoIndexes } from "zod-to-mongo-schema";
+ *
+ * const userSchema = z
+ *   .object({
+ *     email: z.email().meta({ unique: true }),
+ *     name: z.string(),
+ *     age: z.int32(),
+ *   })
+ *   .meta({ indexes: [{ key: { name: 1, age: -1 } }] });
+ *
+ * await users.createIndexes(zodToMongoIndexes(userSchema));
+ */
+export function zodToMongoIndexes(zodSchema: z4.$ZodType): MongoIndexSpec[] {
+  const collector: IndexCollector = {
+    declarations: [],
+    textKey: {},
+    textOptions: {},
+    ancestors: new Set(),
+  };
+  _collectIndexes(zodSchema, [], collector);
+
+  // The same field can be reached through several union options, or be
+  // indexed both by its hints and by its object's `indexes`
+  const merged: MongoIndexDeclaration[] = [];
+  for (const { key, ...options } of collector.declarations) {
+    const existing = merged.find((declaration) =>
+      _sameKey(declaration.key, key),
+    );
+    if (existing) {
+      _mergeOptions(existing, options, `Index ${JSON.stringify(key)}`);
+    } else {
+      merged.push({ key, ...options });
+    }
+  }
+
+  // A collection can only have one text index, so fields indexed with
+  // `"text"` are added to the one declared in `indexes`, if any
+  const textIndexes = merged.filter((declaration) => _isTextIndex(declaration));
+  if (textIndexes.length > 1) {
+    const keys = textIndexes.map(({ key }) => JSON.stringify(key));
+    throw new Error(
+      `A collection can only have one text index, but ${keys.join(" and ")} are declared.`,
+    );
+  }
+  const { textKey, textOptions } = collector;
+  if (Object.keys(textKey).length > 0) {
+    const [textIndex] = textIndexes;
+    if (textIndex) {
+      _mergeOptions(textIndex, textOptions, "The text index");
+      textIndex.key = { ...textIndex.key, ...textKey };
+    } else {
+      merged.push({ key: textKey, ...textOptions });
+    }
+  }
+
+  const specs = merged.map((declaration) => _indexSpec(declaration));
+  for (const [index, { name }] of specs.entries()) {
+    if (specs.findIndex((spec) => spec.name === name) !== index) {
+      throw new Error(`Index "${name}" is declared with different keys.`);
+    }
+  }
+  return specs;
+}
@@ -0,0 +1,500 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import { validationErrorToZodIssues } from "./issues.js";
+
+/** A `oneOf` failure at the root of a document */
+function oneOfFailure(branches: unknown[]) {
+  return {
+    details: {
+      operatorName: "$jsonSchema",
+      schemaRulesNotSatisfied: [
+        { operatorName: "oneOf", schemasNotSatisfied: branches },
+      ],
+    },
+  };
+}
+
+/** A `oneOf` branch that failed on the `kind` discriminator */
+function kindFailure(index: number, expected: string, value: string) {
+  return {
+    index,
+    details: [
+      {
+        operatorName: "properties",
+        propertiesNotSatisfied: [
+          {
+            propertyName: "kind",
+            details: [
+              {
+                operatorName: "enum",
+                specifiedAs: { enum: [expected] },
+                reason: "value was not found in enum",
+                consideredValue: value,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+describe("validationErrorToZodIssues", () => {
+  const userSchema = z.object({
+    _id: z.unknown().meta({ bsonType: "objectId" }),
+    name: z.string().min(3),
+    age: z.int32().min(18),
+    email: z.string().regex(/^\S+@\S+$/),
+    role: z.enum(["admin", "member"]),
+    manager: z.unknown().meta({ bsonType: "objectId" }).nullable(),
+    address: z.object({ city: z.string(), zip: z.string() }),
+    tags: z.array(z.string().max(10)),
+  });
+
+  it("returns no issues without details", () => {
+    expect(validationErrorToZodIssues(undefined, userSchema)).toEqual([]);
+    expect(validationErrorToZodIssues({}, userSchema)).toEqual([]);
+  });
+
+  it("maps type, range, pattern and enum failures to Zod issues", () => {
+    const errorInfo = {
+      failingDocumentId: "64b7f0c2a1b2c3d4e5f60718",
+      details: {
+        operatorName: "$jsonSchema",
+        schemaRulesNotSatisfied: [
+          {
+            operatorName: "properties",
+            propertiesNotSatisfied: [
+              {
+                propertyName: "name",
+                details: [
+                  {
+                    operatorName: "minLength",
+                    specifiedAs: { minLength: 3 },
+                    reason: "specified string length was not satisfied",
+                    consideredValue: "Al",
+                  },
+                ],
+              },
+              {
+                propertyName: "age",
+                details: [
+                  {
+                    operatorName: "bsonType",
+                    specifiedAs: { bsonType: "int" },
+                    reason: "type did not match",
+                    consideredValue: "18",
+                    consideredType: "string",
+                  },
+                ],
+              },
+              {
+                propertyName: "email",
+                details: [
+                  {
+                    operatorName: "pattern",
+                    specifiedAs: { pattern: String.raw`^\S+@\S+$` },
+                    reason: "regular expression did not match",
+                    consideredValue: "nope",
+                  },
+                ],
+              },
+              {
+                propertyName: "role",
+                details: [
+                  {
+                    operatorName: "enum",
+                    specifiedAs: { enum: ["admin", "member"] },
+                    reason: "value was not found in enum",
+                    consideredValue: "owner",
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    expect(validationErrorToZodIssues(errorInfo, userSchema)).toEqual([
+      {
+        code: "too_small",
+        origin: "string",
+        minimum: 3,
+        inclusive: true,
+        path: ["name"],
+        message: "Too small: expected string to have >=3 characters",
+      },
+      {
+        code: "invalid_type",
+        expected: "number",
+        path: ["age"],
+        message: "Invalid input: expected number, received string",
+      },
+      {
+        code: "invalid_format",
+        format: "regex",
+        pattern: String.raw`^\S+@\S+$`,
+        path: ["email"],
+        message: String.raw`Invalid string: must match pattern ^\S+@\S+$`,
+      },
+      {
+        code: "invalid_value",
+        values: ["admin", "member"],
+        path: ["role"],
+        message: 'Invalid option: expected one of "admin"|"member"',
+      },
+    ]);
+  });
+
+  it("maps missing and unexpected fields", () => {
+    const errorInfo = {
+      details: {
+        operatorName: "$jsonSchema",
+        schemaRulesNotSatisfied: [
+          {
+            operatorName: "required",
+            specifiedAs: { required: ["_id", "name", "age"] },
+            missingProperties: ["age"],
+          },
+          {
+            operatorName: "additionalProperties",
+            specifiedAs: { additionalProperties: false },
+            additionalProperties: ["nickname", "extra"],
+          },
+        ],
+      },
+    };
+
+    expect(validationErrorToZodIssues(errorInfo, userSchema)).toEqual([
+      {
+        code: "invalid_type",
+        expected: "number",
+        path: ["age"],
+        message: "Invalid input: expected number, received undefined",
+      },
+      {
+        code: "unrecognized_keys",
+        keys: ["nickname", "extra"],
+        path: [],
+        message: 'Unrecognized keys: "nickname", "extra"',
+      },
+    ]);
+  });
+
+  it("resolves nested object and array paths", () => {
+    const errorInfo = {
+      details: {
+        operatorName: "$jsonSchema",
+        schemaRulesNotSatisfied: [
+          {
+            operatorName: "properties",
+            propertiesNotSatisfied: [
+              {
+                propertyName: "address",
+                details: [
+                  {
+                    operatorName: "required",
+                    specifiedAs: { required: ["city", "zip"] },
+                    missingProperties: ["zip"],
+                  },
+                ],
+              },
+              {
+                propertyName: "tags",
+                details: [
+                  {
+                    operatorName: "items",
+                    reason: "At least one item did not match the sub-schema",
+                    itemIndex: 2,
+                    details: [
+                      {
+                        operatorName: "maxLength",
+                        specifiedAs: { maxLength: 10 },
+                        reason: "specified string length was not satisfied",
+                        consideredValue: "a-very-long-tag",
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const issues = validationErrorToZodIssues(errorInfo, userSchema);
+
+    expect(issues.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: ["address", "zip"], code: "invalid_type" },
+      { path: ["tags", 2], code: "too_big" },
+    ]);
+    expect(issues[0]?.message).toBe(
+      "Invalid input: expected string, received undefined",
+    );
+  });
+
+  it("unwraps nullable fields instead of reporting a union", () => {
+    const errorInfo = {
+      details: {
+        operatorName: "$jsonSchema",
+        schemaRulesNotSatisfied: [
+          {
+            operatorName: "properties",
+            propertiesNotSatisfied: [
+              {
+                propertyName: "manager",
+                details: [
+                  {
+                    operatorName: "anyOf",
+                    schemasNotSatisfied: [
+                      {
+                        index: 0,
+                        details: [
+                          {
+                            operatorName: "bsonType",
+                            specifiedAs: { bsonType: "objectId" },
+                            reason: "type did not match",
+                            consideredValue: "abc",
+                            consideredType: "string",
+                          },
+                        ],
+                      },
+                      {
+                        index: 1,
+                        details: [
+                          {
+                            operatorName: "type",
+                            specifiedAs: { type: "null" },
+                            reason: "type did not match",
+                            consideredValue: "abc",
+                            consideredType: "string",
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    expect(validationErrorToZodIssues(errorInfo, userSchema)).toEqual([
+      {
+        code: "invalid_type",
+        expected: "objectId",
+        path: ["manager"],
+        message: "Invalid input: expected objectId, received string",
+      },
+    ]);
+  });
+
+  it("reports other unions as `invalid_union`", () => {
+    const schema = z.object({ value: z.union([z.string(), z.int32()]) });
+    const errorInfo = {
+      details: {
+        operatorName: "$jsonSchema",
+        schemaRulesNotSatisfied: [
+          {
+            operatorName: "properties",
+            propertiesNotSatisfied: [
+              {
+                propertyName: "value",
+                details: [
+                  {
+                    operatorName: "anyOf",
+                    schemasNotSatisfied: [
+                      {
+                        index: 0,
+                        details: [
+                          {
+                            operatorName: "type",
+                            specifiedAs: { type: "string" },
+                            reason: "type did not match",
+                            consideredValue: true,
+                            consideredType: "bool",
+                          },
+                        ],
+                      },
+                      {
+                        index: 1,
+                        details: [
+                          {
+                            operatorName: "bsonType",
+                            specifiedAs: { bsonType: "int" },
+                            reason: "type did not match",
+                            consideredValue: true,
+                            consideredType: "bool",
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const [issue] = validationErrorToZodIssues(errorInfo, schema);
+
+    expect(issue).toMatchObject({
+      code: "invalid_union",
+      path: ["value"],
+      message: "Invalid input",
+    });
+    expect(issue?.code === "invalid_union" && issue.errors).toHaveLength(2);
+  });
+
+  it("only reports the option a discriminated union picks", () => {
+    const eventSchema = z.discriminatedUnion("kind", [
+      z.object({ kind: z.literal("created"), at: z.date() }),
+      z.object({ kind: z.literal("renamed"), name: z.string() }),
+    ]);
+    const renamed = oneOfFailure([
+      kindFailure(0, "created", "renamed"),
+      {
+        index: 1,
+        details: [
+          {
+            operatorName: "required",
+            specifiedAs: { required: ["kind", "name"] },
+            missingProperties: ["name"],
+          },
+        ],
+      },
+    ]);
+    expect(validationErrorToZodIssues(renamed, eventSchema)).toEqual([
+      {
+        code: "invalid_type",
+        expected: "string",
+        path: ["name"],
+        message: "Invalid input: expected string, received undefined",
+      },
+    ]);
+
+    const unknown = oneOfFailure([
+      kindFailure(0, "created", "deleted"),
+      kindFailure(1, "renamed", "deleted"),
+    ]);
+    expect(validationErrorToZodIssues(unknown, eventSchema)).toEqual([
+      {
+        code: "invalid_union",
+        errors: [],
+        note: "No matching discriminator",
+        discriminator: "kind",
+        path: ["kind"],
+        message: "Invalid input",
+      },
+    ]);
+  });
+
+  it("uses custom error messages from the Zod schema", () => {
+    const schema = z.object({
+      name: z.string({ error: "Name must be text" }),
+      age: z.number().min(18, { error: "Must be an adult" }),
+    });
+    const errorInfo = {
+      details: {
+        operatorName: "$jsonSchema",
+        schemaRulesNotSatisfied: [
+          {
+            operatorName: "properties",
+            propertiesNotSatisfied: [
+              {
+                propertyName: "name",
+                details: [
+                  {
+                    operatorName: "type",
+                    specifiedAs: { type: "string" },
+                    reason: "type did not match",
+                    consideredValue: 1,
+                    consideredType: "int",
+                  },
+                ],
+              },
+              {
+                propertyName: "age",
+                details: [
+                  {
+                    operatorName: "minimum",
+                    specifiedAs: { minimum: 18 },
+                    reason: "comparison failed",
+                    consideredValue: 12,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    expect(
+      validationErrorToZodIssues(errorInfo, schema).map(
+        (issue) => issue.message,
+      ),
+    ).toEqual(["Name must be text", "Must be an adult"]);
+  });
+
+  it("falls back to the server's reason for other operators", () => {
+    const errorInfo = {
+      details: {
+        operatorName: "$jsonSchema",
+        schemaRulesNotSatisfied: [
+          {
+            operatorName: "properties",
+            propertiesNotSatisfied: [
+              {
+                propertyName: "tags",
+                details: [
+                  {
+                    operatorName: "uniqueItems",
+                    specifiedAs: { uniqueItems: true },
+                    reason: "found a duplicate item",
+                    consideredValue: ["a", "a"],
+                    duplicatedValue: "a",
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    expect(validationErrorToZodIssues(errorInfo, userSchema)).toEqual([
+      { code: "custom", path: ["tags"], message: "found a duplicate item" },
+    ]);
+  });
+
+  it("produces issues usable with `z.ZodError`", () => {
+    const errorInfo = {
+      details: {
+        operatorName: "$jsonSchema",
+        schemaRulesNotSatisfied: [
+          {
+            operatorName: "required",
+            specifiedAs: { required: ["name"] },
+            missingProperties: ["name"],
+          },
+        ],
+      },
+    };
+
+    const error = new z.ZodError(
+      validationErrorToZodIssues(errorInfo, userSchema),
+    );
+
+    expect(z.flattenError(error).fieldErrors).toEqual({
+      name: ["Invalid input: expected string, received undefined"],
+    });
+  });
+});
@@ -0,0 +1,511 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as z4 from "zod/v4/core";
+
+import { helperBSONType } from "./schemas.js";
+
+/**
+ * A single node of MongoDB's `errInfo.details` tree
+ * @see https://www.mongodb.com/docs/manual/core/schema-validation/handle-invalid-documents/
+ */
+interface ValidationErrorDetail {
+  operatorName?: string;
+  specifiedAs?: Record<string, any>;
+  reason?: string;
+  consideredValue?: unknown;
+  consideredType?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The `errInfo` of a MongoDB "Document failed validation" (code 121) error.
+ */
+export interface ValidationErrorInfo {
+  failingDocumentId?: unknown;
+  details?: ValidationErrorDetail;
+}
+
+type Path = (string | number)[];
+
+/** @internal */
+function _unwrapZodSchema(schema: z4.$ZodType | undefined) {
+  let current = schema;
+
+  for (;;) {
+    const definition = current?._zod.def as any;
+
+    switch (definition?.type) {
+      case "optional":
+      case "nullable":
+      case "nonoptional":
+      case "default":
+      case "prefault":
+      case "readonly":
+      case "catch": {
+        current = definition.innerType;
+        break;
+      }
+      case "lazy": {
+        current = definition.getter();
+        break;
+      }
+      case "pipe": {
+        // The stored value is the pipe's output, unless it's a transform
+        current =
+          definition.out._zod.def.type === "transform"
+            ? definition.in
+            : definition.out;
+        break;
+      }
+      default: {
+        return current;
+      }
+    }
+  }
+}
+
+/**
+ * Finds the Zod schema that validates the value at `key` within `schema`.
+ *
+ * @internal
+ */
+function _zodSchemaAt(
+  schema: z4.$ZodType | undefined,
+  key: string | number,
+): z4.$ZodType | undefined {
+  const unwrapped = _unwrapZodSchema(schema);
+  const definition = unwrapped?._zod.def as any;
+
+  switch (definition?.type) {
+    case "object": {
+      return Object.hasOwn(definition.shape, key)
+        ? definition.shape[key]
+        : definition.catchall;
+    }
+    case "record":
+    case "map":
+    case "set": {
+      return definition.valueType;
+    }
+    case "array": {
+      return definition.element;
+    }
+    case "tuple": {
+      return definition.items[key] ?? definition.rest ?? undefined;
+    }
+    case "union": {
+      for (const option of definition.options) {
+        const found = _zodSchemaAt(option, key);
+        if (found) return found;
+      }
+      return undefined;
+    }
+    case "intersection": {
+      return (
+        _zodSchemaAt(definition.left, key) ??
+        _zodSchemaAt(definition.right, key)
+      );
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Finds the check (e.g. `.min()`) that produces the given kind of issue, so
+ * its custom error message can be used.
+ *
+ * @internal
+ */
+function _zodCheck(schema: z4.$ZodType | undefined, check: string) {
+  const checks = _unwrapZodSchema(schema)?._zod.def.checks ?? [];
+
+  return checks.find(
+    (candidate) =>
+      candidate._zod.def.check === check ||
+      (check.endsWith("_length") &&
+        candidate._zod.def.check === "length_equals"),
+  );
+}
+
+/** @internal */
+function _expectedType(
+  schema: z4.$ZodType | undefined,
+  specifiedAs?: Record<string, any>,
+): string {
+  const unwrapped = _unwrapZodSchema(schema);
+  const definition = unwrapped?._zod.def as any;
+
+  // BSON helpers (e.g. `zObjectId()`) are `z.custom()` schemas
+  const helperType = helperBSONType(unwrapped);
+  if (helperType) return helperType;
+
+  // `z.unknown()` is only ever used with a `bsonType`, which says more
+  const type = definition?.type;
+  if (type && type !== "unknown" && type !== "any") return type;
+
+  const specified = specifiedAs?.bsonType ?? specifiedAs?.type;
+  return [specified].flat().filter(Boolean).join(" | ") || "unknown";
+}
+
+/** @internal */
+function _isNullTypeFailure(details: ValidationErrorDetail[] | undefined) {
+  return details?.some((detail) => {
+    const specified = detail.specifiedAs?.type ?? detail.specifiedAs?.bsonType;
+    return (
+      (detail.operatorName === "type" || detail.operatorName === "bsonType") &&
+      [specified].flat().every((type) => type === "null")
+    );
+  });
+}
+
+/**
+ * Whether a union option failed on the discriminator, i.e. the value is of
+ * another option of the discriminated union.
+ *
+ * @internal
+ */
+function _isDiscriminatorFailure(
+  details: ValidationErrorDetail[] | undefined,
+  discriminator: string,
+) {
+  return details?.some((detail) =>
+    detail.operatorName === "required"
+      ? ((detail.missingProperties ?? []) as string[]).includes(discriminator)
+      : detail.operatorName === "properties" &&
+        ((detail.propertiesNotSatisfied ?? []) as any[]).some(
+          (property) => property.propertyName === discriminator,
+        ),
+  );
+}
+
+/** @internal */
+function _finalize(raw: Record<string, any>): z4.$ZodIssue {
+  // Zod resolves messages from the schema's `error`, then the global
+  // `customError` and `localeError`, so they match Zod's own issues.
+  return z4.util.finalizeIssue(raw as any, undefined, z4.config());
+}
+
+/** @internal */
+function _collectIssues(
+  details: ValidationErrorDetail[],
+  schema: z4.$ZodType | undefined,
+  path: Path,
+): z4.$ZodIssue[] {
+  const issues: z4.$ZodIssue[] = [];
+
+  for (const detail of details) {
+    issues.push(..._detailToIssues(detail, schema, path));
+  }
+
+  return issues;
+}
+
+/** @internal */
+function _detailToIssues(
+  detail: ValidationErrorDetail,
+  schema: z4.$ZodType | undefined,
+  path: Path,
+): z4.$ZodIssue[] {
+  const { operatorName, specifiedAs = {}, consideredValue } = detail;
+  const base = { path, input: consideredValue };
+
+  switch (operatorName) {
+    case "$jsonSchema":
+    case "allOf": {
+      const rules = (detail.schemaRulesNotSatisfied ??
+        []) as ValidationErrorDetail[];
+      const branches = (detail.schemasNotSatisfied ?? []) as any[];
+      return [
+        ..._collectIssues(rules, schema, path),
+        ...branches.flatMap((branch) =>
+          _collectIssues(branch.details ?? [], schema, path),
+        ),
+      ];
+    }
+
+    case "properties": {
+      const properties = (detail.propertiesNotSatisfied ?? []) as any[];
+      return properties.flatMap((property) =>
+        _collectIssues(
+          property.details ?? [],
+          _zodSchemaAt(schema, property.propertyName),
+          [...path, property.propertyName],
+        ),
+      );
+    }
+
+    case "patternProperties": {
+      const properties = (detail.details ?? []) as any[];
+      return properties.flatMap((property) =>
+        _collectIssues(
+          property.details ?? [],
+          _zodSchemaAt(schema, property.propertyName),
+          [...path, property.propertyName],
+        ),
+      );
+    }
+
+    case "items":
+    case "additionalItems": {
+      if (Array.isArray(detail.details) && detail.itemIndex !== undefined) {
+        const index = detail.itemIndex as number;
+        return _collectIssues(
+          detail.details as ValidationErrorDetail[],
+          _zodSchemaAt(schema, index),
+          [...path, index],
+        );
+      }
+
+      return [
+        _finalize({
+          ...base,
+          code: "too_big",
+          origin: "array",
+          maximum: (specifiedAs.items as unknown[] | undefined)?.length ?? 0,
+          inclusive: true,
+        }),
+      ];
+    }
+
+    case "required": {
+      const missing = (detail.missingProperties ?? []) as string[];
+      return missing.map((key) => {
+        const propertySchema = _zodSchemaAt(schema, key);
+        return _finalize({
+          code: "invalid_type",
+          path: [...path, key],
+          input: undefined,
+          inst: propertySchema,
+          expected: _expectedType(propertySchema),
+        });
+      });
+    }
+
+    case "additionalProperties": {
+      // With a schema, the failing property is validated against it
+      if (typeof detail.failingProperty === "string") {
+        return _collectIssues(
+          (detail.details ?? []) as ValidationErrorDetail[],
+          _zodSchemaAt(schema, detail.failingProperty),
+          [...path, detail.failingProperty],
+        );
+      }
+
+      return [
+        _finalize({
+          ...base,
+          inst: schema,
+          code: "unrecognized_keys",
+          keys: (detail.additionalProperties ?? []) as string[],
+        }),
+      ];
+    }
+
+    case "type":
+    case "bsonType": {
+      return [
+        _finalize({
+          ...base,
+          inst: schema,
+          code: "invalid_type",
+          expected: _expectedType(schema, specifiedAs),
+        }),
+      ];
+    }
+
+    case "enum": {
+      return [
+        _finalize({
+          ...base,
+          inst: schema,
+          code: "invalid_value",
+          values: specifiedAs.enum ?? [],
+        }),
+      ];
+    }
+
+    case "minimum":
+    case "maximum": {
+      const isMinimum = operatorName === "minimum";
+      const exclusive = isMinimum
+        ? specifiedAs.exclusiveMinimum
+        : specifiedAs.exclusiveMaximum;
+      return [
+        _finalize({
+          ...base,
+          inst: _zodCheck(schema, isMinimum ? "greater_than" : "less_than"),
+          code: isMinimum ? "too_small" : "too_big",
+          origin: "number",
+          [operatorName]: specifiedAs[operatorName],
+          inclusive: !exclusive,
+        }),
+      ];
+    }
+
+    case "minLength":
+    case "maxLength":
+    case "minItems":
+    case "maxItems":
+    case "minProperties":
+    case "maxProperties": {
+      const isMinimum = operatorName.startsWith("min");
+      const origin = operatorName.endsWith("Length")
+        ? "string"
+        : operatorName.endsWith("Items")
+          ? "array"
+          : "object";
+      return [
+        _finalize({
+          ...base,
+          inst: _zodCheck(schema, isMinimum ? "min_length" : "max_length"),
+          code: isMinimum ? "too_small" : "too_big",
+          origin,
+          [isMinimum ? "minimum" : "maximum"]: specifiedAs[operatorName],
+          inclusive: true,
+        }),
+      ];
+    }
+
+    case "multipleOf": {
+      return [
+        _finalize({
+          ...base,
+          inst: _zodCheck(schema, "multiple_of"),
+          code: "not_multiple_of",
+          divisor: specifiedAs.multipleOf,
+        }),
+      ];
+    }
+
+    case "pattern": {
+      return [
+        _finalize({
+          ...base,
+          inst: _zodCheck(schema, "string_format"),
+          code: "invalid_format",
+          format: "regex",
+          pattern: specifiedAs.pattern,
+        }),
+      ];
+    }
+
+    case "anyOf":
+    case "oneOf": {
+      const branches = (detail.schemasNotSatisfied ?? []) as any[];
+
+      // Like Zod, a discriminated union only reports the issues of the
+      // option its discriminator picks
+      const union = _unwrapZodSchema(schema)?._zod.def as any;
+      if (union?.discriminator) {
+        const picked = branches.filter(
+          (branch) =>
+            !_isDiscriminatorFailure(branch.details, union.discriminator),
+        );
+
+        if (picked.length === 0) {
+          return [
+            _finalize({
+              ...base,
+              path: [...path, union.discriminator],
+              inst: schema,
+              code: "invalid_union",
+              errors: [],
+              note: "No matching discriminator",
+              discriminator: union.discriminator,
+            }),
+          ];
+        }
+        if (picked.length === 1) {
+          return _collectIssues(
+            picked[0].details ?? [],
+            union.options[picked[0].index],
+            path,
+          );
+        }
+      }
+
+      // A nullable field fails both its own schema and `null`, but Zod
+      // (like the user) only cares about the former.
+      const nonNullBranches = branches.filter(
+        (branch) => !_isNullTypeFailure(branch.details),
+      );
+      if (branches.length > 1 && nonNullBranches.length === 1) {
+        return _collectIssues(nonNullBranches[0].details ?? [], schema, path);
+      }
+
+      return [
+        _finalize({
+          ...base,
+          inst: schema,
+          code: "invalid_union",
+          errors: branches.map((branch) =>
+            _collectIssues(branch.details ?? [], schema, path),
+          ),
+        }),
+      ];
+    }
+
+    case "dependencies": {
+      const dependencies = (detail.failingDependencies ?? []) as any[];
+      return dependencies.flatMap((dependency) =>
+        Array.isArray(dependency.missingProperties)
+          ? dependency.missingProperties.map((key: string) =>
+              _finalize({
+                code: "custom",
+                path: [...path, key],
+                input: undefined,
+                message: `Required when "${dependency.conditionalProperty}" is present`,
+              }),
+            )
+          : _collectIssues(dependency.details ?? [], schema, path),
+      );
+    }
+
+    default: {
+      return [
+        _finalize({
+          ...base,
+          code: "custom",
+          message: detail.reason ?? `Failed \`${operatorName}\` validation`,
+        }),
+      ];
+    }
+  }
+}
+
+/**
+ * Converts the `errInfo` of a MongoDB "Document failed validation" error
+ * (code 121) into a flat list of Zod issues.
+ *
+ * Paths are resolved against the original Zod schema, so messages come from
+ * the same place as Zod's own: the schema's custom `error`, then the global
+ * error map configured with `z.config()`.
+ *
+ * @param errorInfo The `errInfo` of the MongoDB error.
+ * @param zodSchema The Zod schema the collection's validator was converted from.
+ * @returns A list of Zod issues, e.g. for `new z.ZodError(issues)`.
+ *
+ * @example
+ * import z from "zod";
+ * import { validationErrorToZodIssues } from "zod-to-mongo-schema";
+ *
+ * try {
+ *   await users.insertOne(user);
+ * } catch (error) {
+ *   if (error instanceof MongoServerError && error.code === 121) {
+ *     const issues = validationErrorToZodIssues(error.errInfo, userSchema);
+ *     throw new z.ZodError(issues);
+ *   }
+ *   throw error;
+ * }
+ */
+export function validationErrorToZodIssues(
+  errorInfo: ValidationErrorInfo | undefined,
+  zodSchema: z4.$ZodType,
+): z4.$ZodIssue[] {
+  if (!errorInfo?.details) return [];
+
+  return _detailToIssues(errorInfo.details, zodSchema, []);
+}
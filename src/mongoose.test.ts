@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import { zodToMongooseDefinition, zodToMongooseSchema } from "./mongoose.js";
+import { zDecimal128, zObjectId } from "./schemas.js";
+
+describe("zodToMongooseDefinition", () => {
+  it("converts types, `required` and checks", () => {
+    const schema = z.object({
+      _id: zObjectId(),
+      name: z.string().min(1).max(50),
+      email: z.string().regex(/^[^@]+@example\.com$/i),
+      age: z.int32().min(0).optional(),
+      score: z.number().nullable(),
+      role: z.enum(["user", "admin"]),
+      balance: zDecimal128(),
+      active: z.boolean(),
+      createdAt: z.date(),
+    });
+
+    expect(zodToMongooseDefinition(schema)).toEqual({
+      _id: { type: "ObjectId", required: true },
+      name: { type: "String", minLength: 1, maxLength: 50, required: true },
+      email: {
+        type: "String",
+        match: /^[^@]+@example\.com$/iu,
+        required: true,
+      },
+      age: { type: "Number", min: 0 },
+      score: { type: "Number" },
+      role: { type: "String", enum: ["user", "admin"], required: true },
+      balance: { type: "Decimal128", required: true },
+      active: { type: "Boolean", required: true },
+      createdAt: { type: "Date", required: true },
+    });
+  });
+
+  it("converts subdocuments, arrays and maps", () => {
+    const schema = z.object({
+      address: z.object({ city: z.string(), zip: z.string().optional() }),
+      previous: z.object({ city: z.string() }).nullable(),
+      tags: z.array(z.string().max(20)),
+      items: z.array(z.object({ sku: z.string(), qty: z.int32() })),
+      point: z.tuple([z.number(), z.number()]),
+      counts: z.record(z.string(), z.number()),
+      value: z.union([z.string(), z.number()]),
+    });
+
+    expect(zodToMongooseDefinition(schema)).toEqual({
+      address: {
+        type: {
+          city: { type: "String" },
+          zip: { type: "String" },
+        },
+        required: true,
+      },
+      previous: { type: { city: { type: "String" } } },
+      tags: { type: [{ type: "String", maxLength: 20 }], required: true },
+      items: {
+        type: [
+          {
+            type: {
+              sku: { type: "String" },
+              qty: { type: "Number", required: true },
+            },
+          },
+        ],
+        required: true,
+      },
+      point: { type: [{ type: "Mixed" }], required: true },
+      counts: { type: "Map", of: { type: "Number" }, required: true },
+      value: { type: "Mixed", required: true },
+    });
+  });
+
+  it("only requires strings that reject empty ones", () => {
+    const schema = z.object({
+      nick: z.string(),
+      name: z.string().min(1),
+      code: z.string().regex(/^[A-Z]+$/),
+      optionalCode: z.string().regex(/^[A-Z]*$/),
+      status: z.enum(["", "active"]),
+    });
+
+    expect(zodToMongooseDefinition(schema)).toEqual({
+      nick: { type: "String" },
+      name: { type: "String", minLength: 1, required: true },
+      code: { type: "String", match: /^[A-Z]+$/u, required: true },
+      optionalCode: { type: "String", match: /^[A-Z]*$/u },
+      status: { type: "String", enum: ["", "active"] },
+    });
+  });
+
+  it('uses BSON number types with `numberTypes: "bson"`', () => {
+    const schema = z.object({
+      count: z.int32(),
+      views: z.int(),
+      ratio: z.float64(),
+      amount: z.number(),
+    });
+
+    const definition = zodToMongooseDefinition(schema, { numberTypes: "bson" });
+
+    expect(Object.values(definition).map(({ type }) => type)).toEqual([
+      "Int32",
+      "BigInt",
+      "Double",
+      "Number",
+    ]);
+  });
+
+  it("rejects schemas that aren't objects", () => {
+    expect(() => zodToMongooseDefinition(z.string())).toThrow(
+      "Only object schemas can be converted to a Mongoose schema definition.",
+    );
+  });
+});
+
+describe("zodToMongooseSchema", () => {
+  it("explains how to do without Mongoose when it isn't installed", async () => {
+    await expect(
+      zodToMongooseSchema(z.object({ name: z.string() })),
+    ).rejects.toThrow(
+      "`zodToMongooseSchema` needs Mongoose. Install `mongoose`, or pass `zodToMongooseDefinition()` to your own `new Schema()`.",
+    );
+  });
+});
@@ -0,0 +1,397 @@
+import type * as z4 from "zod/v4/core";
+
+import { toMongoSchema } from "./diff.js";
+import { formatSchemaPath, ZodToMongoSchemaError } from "./errors.js";
+import { isAllowedId } from "./id.js";
+import type { ZodToMongoSchemaOptions } from "./index.js";
+import { fromPcrePattern } from "./pattern.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * The options of a path in a Mongoose schema definition. Types are given by
+ * name (e.g. `"ObjectId"` for `Schema.Types.ObjectId`), which Mongoose
+ * resolves like the classes.
+ * @see https://mongoosejs.com/docs/schematypes.html
+ */
+export interface MongooseSchemaTypeOptions {
+  /** A type name, a subdocument's definition, or an array of either */
+  type:
+    | string
+    | MongooseSchemaDefinition
+    | [MongooseSchemaTypeOptions | MongooseSchemaDefinition];
+  required?: boolean;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  enum?: unknown[];
+  match?: RegExp;
+  /** The values of a `Map` */
+  of?: MongooseSchemaTypeOptions;
+}
+
+/**
+ * A Mongoose schema definition, as passed to `new Schema()`.
+ */
+export type MongooseSchemaDefinition = Record<
+  string,
+  MongooseSchemaTypeOptions
+>;
+
+/**
+ * Options for generating a Mongoose schema definition.
+ */
+export interface MongooseDefinitionOptions extends ZodToMongoSchemaOptions {
+  /**
+   * The Mongoose types of `int`, `long` and `double` fields. With `"Number"`,
+   * they're all `Number`, as usual in Mongoose. With `"bson"`, they're
+   * `Int32`, `BigInt` and `Double`, to store the BSON type `zodToMongoSchema`
+   * infers, which needs a Mongoose version with the `Int32` and `Double`
+   * types.
+   *
+   * @default "Number"
+   */
+  numberTypes?: "Number" | "bson";
+}
+
+/**
+ * Options for creating a Mongoose schema.
+ */
+export interface MongooseSchemaOptions extends MongooseDefinitionOptions {
+  /** Options passed as-is to `new Schema()`, e.g. `timestamps` */
+  schemaOptions?: Record<string, unknown>;
+}
+
+/** @internal */
+type Path = (string | number)[];
+
+/** The Mongoose type of each BSON type */
+const MONGOOSE_TYPES: Record<string, string> = {
+  binData: "Buffer",
+  bool: "Boolean",
+  date: "Date",
+  decimal: "Decimal128",
+  double: "Number",
+  int: "Number",
+  long: "Number",
+  number: "Number",
+  objectId: "ObjectId",
+  string: "String",
+};
+
+/** The Mongoose types of numbers with `numberTypes: "bson"` */
+const BSON_NUMBER_TYPES: Record<string, string> = {
+  double: "Double",
+  int: "Int32",
+  long: "BigInt",
+};
+
+/** Keywords that only apply to objects */
+const OBJECT_KEYWORDS = [
+  "additionalProperties",
+  "patternProperties",
+  "properties",
+  "required",
+];
+
+/** @internal */
+function _isNull(schema: MongoSchema) {
+  return [schema.bsonType ?? schema.type]
+    .flat()
+    .every((type) => type === "null");
+}
+
+/**
+ * The types a schema accepts, besides `null`, and whether it accepts `null`.
+ *
+ * @internal
+ */
+function _types(schema: MongoSchema) {
+  // Without a type, object keywords imply an object, and `items` an array
+  const inferred = OBJECT_KEYWORDS.some((key) => key in schema)
+    ? ["object"]
+    : "items" in schema
+      ? ["array"]
+      : [];
+  const types = [schema.bsonType ?? schema.type ?? inferred]
+    .flat()
+    .map((type: string) => (type === "boolean" ? "bool" : type));
+
+  return {
+    types: types.filter((type) => type !== "null"),
+    nullable: types.includes("null"),
+  };
+}
+
+/** @internal */
+function _enumType(values: unknown[]) {
+  if (values.every((value) => typeof value === "string")) return "String";
+  if (values.every((value) => typeof value === "number")) return "Number";
+  return "Mixed";
+}
+
+/**
+ * Converts a `MongoSchema` to the options of a Mongoose path, and whether it
+ * accepts `null`, which Mongoose's `required` doesn't.
+ *
+ * @internal
+ */
+function _schemaType(
+  schema: MongoSchema,
+  path: Path,
+  options: MongooseDefinitionOptions,
+): { typeOptions: MongooseSchemaTypeOptions; nullable: boolean } {
+  // A nullable type is often a union with `null`
+  const branches = schema.anyOf ?? schema.oneOf;
+  if (branches && !schema.allOf) {
+    const nonNull = branches.filter((branch) => !_isNull(branch));
+    if (nonNull.length === 1 && nonNull.length < branches.length) {
+      const index = branches.indexOf(nonNull[0]!);
+      const key = schema.anyOf ? "anyOf" : "oneOf";
+      const { typeOptions } = _schemaType(
+        nonNull[0]!,
+        [...path, key, index],
+        options,
+      );
+      return { typeOptions, nullable: true };
+    }
+  }
+
+  const { types, nullable } = _types(schema);
+  const [type] = types;
+
+  if (schema.enum) {
+    const values = schema.enum.filter((value) => value !== null);
+    return {
+      typeOptions: { type: _enumType(values), enum: values },
+      nullable: nullable || values.length < schema.enum.length,
+    };
+  }
+
+  // Mongoose can't check unions, intersections, nor BSON types without a
+  // schema type (e.g. `timestamp`)
+  if (branches || schema.allOf || types.length !== 1 || type === undefined) {
+    return { typeOptions: { type: "Mixed" }, nullable };
+  }
+
+  switch (type) {
+    case "object": {
+      return { typeOptions: _objectType(schema, path, options), nullable };
+    }
+    case "array": {
+      const { items } = schema;
+      // Tuples are arrays of mixed values
+      const element =
+        items === undefined || Array.isArray(items)
+          ? { type: "Mixed" }
+          : _schemaType(items, [...path, "items"], options).typeOptions;
+      return { typeOptions: { type: [element] }, nullable };
+    }
+    case "string": {
+      return { typeOptions: _stringType(schema, path), nullable };
+    }
+  }
+
+  const bsonNumberType =
+    options.numberTypes === "bson" ? BSON_NUMBER_TYPES[type] : undefined;
+  const typeOptions: MongooseSchemaTypeOptions = {
+    type: bsonNumberType ?? MONGOOSE_TYPES[type] ?? "Mixed",
+  };
+  // `exclusiveMinimum` and `exclusiveMaximum` have no Mongoose equivalent,
+  // so exclusive bounds are checked as inclusive ones
+  if (schema.minimum !== undefined) typeOptions.min = schema.minimum;
+  if (schema.maximum !== undefined) typeOptions.max = schema.maximum;
+
+  return { typeOptions, nullable };
+}
+
+/** @internal */
+function _stringType(
+  schema: MongoSchema,
+  path: Path,
+): MongooseSchemaTypeOptions {
+  const typeOptions: MongooseSchemaTypeOptions = { type: "String" };
+  if (schema.minLength !== undefined) typeOptions.minLength = schema.minLength;
+  if (schema.maxLength !== undefined) typeOptions.maxLength = schema.maxLength;
+
+  if (schema.pattern !== undefined) {
+    const match = fromPcrePattern(schema.pattern);
+    if (!match) {
+      throw new ZodToMongoSchemaError(
+        "PATTERN_UNSUPPORTED",
+        `\`pattern\` /${schema.pattern}/ isn't a valid JavaScript regex.`,
+        formatSchemaPath([...path, "pattern"]),
+      );
+    }
+    typeOptions.match = match;
+  }
+
+  return typeOptions;
+}
+
+/** @internal */
+function _objectType(
+  schema: MongoSchema,
+  path: Path,
+  options: MongooseDefinitionOptions,
+): MongooseSchemaTypeOptions {
+  const { properties, additionalProperties } = schema;
+
+  if (properties) {
+    return { type: _definition(schema, path, options) };
+  }
+  // Only keyed by `additionalProperties`, like `z.record()`
+  if (typeof additionalProperties === "object") {
+    const { typeOptions } = _schemaType(
+      additionalProperties,
+      [...path, "additionalProperties"],
+      options,
+    );
+    return { type: "Map", of: typeOptions };
+  }
+
+  return { type: "Mixed" };
+}
+
+/**
+ * Whether a path accepts `""`, which Mongoose's `required` rejects for
+ * strings.
+ *
+ * @internal
+ */
+function _acceptsEmptyString({
+  type,
+  minLength,
+  enum: values,
+  match,
+}: MongooseSchemaTypeOptions) {
+  return (
+    type === "String" &&
+    (minLength === undefined || minLength === 0) &&
+    (values === undefined || values.includes("")) &&
+    (match === undefined || match.test(""))
+  );
+}
+
+/**
+ * Converts an object's properties to a Mongoose schema definition.
+ *
+ * @internal
+ */
+function _definition(
+  schema: MongoSchema,
+  path: Path,
+  options: MongooseDefinitionOptions,
+): MongooseSchemaDefinition {
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required);
+  const definition: MongooseSchemaDefinition = {};
+
+  // Required properties without a schema accept any value
+  for (const key of new Set([...Object.keys(properties), ...required])) {
+    const { typeOptions, nullable } = properties[key]
+      ? _schemaType(properties[key], [...path, "properties", key], options)
+      : { typeOptions: { type: "Mixed" }, nullable: true };
+
+    definition[key] =
+      required.has(key) && !nullable && !_acceptsEmptyString(typeOptions)
+        ? { ...typeOptions, required: true }
+        : typeOptions;
+  }
+
+  return definition;
+}
+
+/**
+ * Converts a Zod schema to a Mongoose schema definition, to pass to
+ * `new Schema()` in services that use Mongoose. Types, `required`, bounds,
+ * enums, patterns, subdocuments and arrays follow the same conversion as
+ * `zodToMongoSchema`, and BSON types set with `.meta({ bsonType })` become
+ * their Mongoose types (e.g. `"ObjectId"` for `Schema.Types.ObjectId`).
+ *
+ * Values Mongoose can't check, like unions and tuples, are `"Mixed"`.
+ *
+ * @param schema The schema of the documents: a Zod object schema, or a
+ * `MongoSchema`.
+ * @param options How numbers are typed, and converter options.
+ * @returns The schema definition, as a plain object.
+ * @throws If the schema isn't an object schema, or a `ZodToMongoSchemaError`
+ * if a pattern isn't a valid JavaScript regex.
+ *
+ * @example
+ * import { model, Schema } from "mongoose";
+ * import { zodToMongooseDefinition } from "zod-to-mongo-schema";
+ *
+ * const User = model(
+ *   "User",
+ *   new Schema(zodToMongooseDefinition(userSchema), { timestamps: true }),
+ * );
+ */
+export function zodToMongooseDefinition(
+  schema: z4.$ZodType | MongoSchema,
+  options: MongooseDefinitionOptions = {},
+): MongooseSchemaDefinition {
+  const { numberTypes = "Number", ...converterOptions } = options;
+  const mongoSchema = toMongoSchema(schema, converterOptions);
+
+  const { types } = _types(mongoSchema);
+  if (types.length !== 1 || types[0] !== "object" || !mongoSchema.properties) {
+    throw new Error(
+      "Only object schemas can be converted to a Mongoose schema definition.",
+    );
+  }
+
+  const definition = _definition(mongoSchema, [], { numberTypes });
+  // The `_id` that `zodToMongoSchema` allows in root objects would replace
+  // the `ObjectId` Mongoose generates
+  if (
+    !mongoSchema.required?.includes("_id") &&
+    isAllowedId(mongoSchema.properties._id)
+  ) {
+    delete definition._id;
+  }
+  return definition;
+}
+
+/**
+ * Converts a Zod schema to a Mongoose `Schema`, like
+ * `new Schema(zodToMongooseDefinition(schema))`. Mongoose is an optional peer
+ * dependency, imported when this is first called.
+ *
+ * @param schema The schema of the documents: a Zod object schema, or a
+ * `MongoSchema`.
+ * @param options Options for `new Schema()`, how numbers are typed, and
+ * converter options.
+ * @returns The Mongoose schema, typed as `TSchema`.
+ * @throws If Mongoose isn't installed, or the schema can't be converted.
+ *
+ * @example
+ * import { model, type Schema } from "mongoose";
+ * import { zodToMongooseSchema } from "zod-to-mongo-schema";
+ *
+ * const userMongooseSchema = await zodToMongooseSchema<Schema>(userSchema, {
+ *   schemaOptions: { timestamps: true },
+ * });
+ * const User = model("User", userMongooseSchema);
+ */
+export async function zodToMongooseSchema<TSchema = unknown>(
+  schema: z4.$ZodType | MongoSchema,
+  options: MongooseSchemaOptions = {},
+): Promise<TSchema> {
+  const { schemaOptions, ...definitionOptions } = options;
+  const definition = zodToMongooseDefinition(schema, definitionOptions);
+
+  // Not a static import, so Mongoose isn't needed otherwise
+  const moduleName = "mongoose";
+  let mongoose: { Schema: new (...argv: unknown[]) => TSchema };
+  try {
+    ({ default: mongoose } = await import(moduleName));
+  } catch (error) {
+    throw new Error(
+      "`zodToMongooseSchema` needs Mongoose. Install `mongoose`, or pass `zodToMongooseDefinition()` to your own `new Schema()`.",
+      { cause: error },
+    );
+  }
+
+  return new mongoose.Schema(definition, schemaOptions);
+}
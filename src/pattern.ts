@@ -0,0 +1,261 @@
+/**
+ * MongoDB matches `pattern`s with PCRE, whose syntax mostly matches JS
+ * regexes. These helpers rewrite the parts that differ, and report the ones
+ * that can't be rewritten.
+ */
+
+export interface PcrePattern {
+  pattern: string;
+  /** Descriptions of the constructs PCRE doesn't support */
+  unsupported: string[];
+}
+
+/** Escapes with the same meaning in JS and PCRE (besides `\u` and `\p`) */
+const SHARED_ESCAPES = new Set("bBcdDfknrsStwWx0123456789");
+
+/** @internal */
+function _hexEscape(codePoint: number) {
+  return String.raw`\x{${codePoint.toString(16).toUpperCase()}}`;
+}
+
+/**
+ * Rewrites the escape starting at `index`, returning the rewritten escape
+ * and the length of the original.
+ *
+ * @internal
+ */
+function _rewriteEscape(
+  pattern: string,
+  index: number,
+  unsupported: Set<string>,
+): [string, number] {
+  const rest = pattern.slice(index);
+  const letter = rest[1] ?? "";
+
+  if (letter === "u") {
+    // `\u{1F600}` (with the `u` flag) → `\x{1F600}`
+    const braced = /^\\u\{([\dA-Fa-f]+)\}/.exec(rest);
+    if (braced) {
+      return [_hexEscape(Number.parseInt(braced[1]!, 16)), braced[0].length];
+    }
+
+    // `😀` → `\x{1F600}`, since PCRE rejects lone surrogates
+    const pair = /^\\u(d[89ab][\da-f]{2})\\u(d[c-f][\da-f]{2})/i.exec(rest);
+    if (pair) {
+      const high = Number.parseInt(pair[1]!, 16);
+      const low = Number.parseInt(pair[2]!, 16);
+      const codePoint = (high - 0xd8_00) * 0x4_00 + (low - 0xdc_00) + 0x1_00_00;
+      return [_hexEscape(codePoint), pair[0].length];
+    }
+
+    // `é` → `\x{E9}`
+    const short = /^\\u([\dA-Fa-f]{4})/.exec(rest);
+    if (short) {
+      return [_hexEscape(Number.parseInt(short[1]!, 16)), short[0].length];
+    }
+
+    // Without hex digits, `\u` is just "u"
+    return ["u", 2];
+  }
+
+  if (letter === "p" || letter === "P") {
+    const property = /^\\[pP]\{([^}]*)\}/.exec(rest);
+    if (!property) return [rest.slice(0, 2), 2];
+
+    // `\p{Script=Greek}` and `\p{gc=Lu}` → `\p{Greek}` and `\p{Lu}`
+    const [name, value] = property[1]!.split("=");
+    if (value === undefined) return [property[0], property[0].length];
+    if (["Script", "sc", "General_Category", "gc"].includes(name!)) {
+      return [`\\${letter}{${value}}`, property[0].length];
+    }
+
+    unsupported.add(`\`\\${letter}{${name}=…}\``);
+    return [property[0], property[0].length];
+  }
+
+  // In JS, `\v` is only a vertical tab, but in PCRE it's any vertical space
+  if (letter === "v") return [String.raw`\x0B`, 2];
+
+  // In JS, other escaped letters are the letter itself (e.g. `\a` is "a"),
+  // while in PCRE they have other meanings (e.g. `\a` is the bell character)
+  if (/^[A-Za-z]$/.test(letter) && !SHARED_ESCAPES.has(letter)) {
+    return [letter, 2];
+  }
+
+  return [rest.slice(0, 2), 2];
+}
+
+/**
+ * Finds the index of the `)` that closes the group opening at `start`.
+ *
+ * @internal
+ */
+function _groupEnd(pattern: string, start: number) {
+  let depth = 0;
+  let inClass = false;
+
+  for (let index = start; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === "\\") {
+      index++;
+      continue;
+    }
+
+    if (inClass) {
+      inClass = char !== "]";
+      continue;
+    }
+
+    switch (char) {
+      case "[": {
+        inClass = true;
+        break;
+      }
+      case "(": {
+        depth++;
+        break;
+      }
+      case ")": {
+        depth--;
+        if (depth === 0) return index;
+        break;
+      }
+    }
+  }
+
+  return pattern.length;
+}
+
+/**
+ * Whether a lookbehind's contents can match strings of different lengths,
+ * which PCRE doesn't support.
+ *
+ * @internal
+ */
+function _isVariableLength(body: string) {
+  // Remove escapes and character classes, which are a single character
+  const stripped = body
+    .replaceAll(/\\(?:[pPu]\{[^}]*\}|k<[^>]*>|.)/g, "x")
+    .replaceAll(/\[(?:\\.|[^\\\]])*\]/g, "x");
+
+  return (
+    /[*+]|[^(]\?/.test(stripped) ||
+    [...stripped.matchAll(/\{(\d+),(\d*)\}/g)].some(
+      ([, min, max]) => min !== max,
+    )
+  );
+}
+
+/** Escapes a string to be matched literally in a pattern */
+export function escapeRegExp(value: string): string {
+  return value.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+}
+
+/**
+ * Moves a regex's flags into the pattern, since `pattern` has no flags.
+ * `i`, `m` and `s` become a leading `(?ims)` group, and `y` anchors the
+ * pattern. `g` and `d` don't change what matches, and `u` is implied.
+ */
+export function inlineFlags(regex: RegExp): PcrePattern {
+  const unsupported: string[] = [];
+  const inline = [...regex.flags].filter((flag) => "ims".includes(flag));
+  let pattern = regex.source;
+
+  if (regex.sticky) {
+    if (regex.multiline) {
+      unsupported.push("the `y` flag with the `m` flag");
+    } else {
+      pattern = `^(?:${pattern})`;
+    }
+  }
+
+  if (regex.flags.includes("v")) unsupported.push("the `v` flag");
+
+  if (inline.length > 0) pattern = `(?${inline.join("")})${pattern}`;
+  return { pattern, unsupported };
+}
+
+/**
+ * Converts a `pattern` back to a JavaScript regex, with a leading `(?ims)`
+ * group as flags and `\x{1F600}` as `\u{1F600}`. MongoDB matches by code
+ * point, so the regex has the `u` flag, unless it's only valid without it
+ * (e.g. with `\-` outside a class). Returns `undefined` if it isn't a valid
+ * JavaScript regex.
+ */
+export function fromPcrePattern(pattern: string): RegExp | undefined {
+  const [, flags = "", body = pattern] = /^\(\?([ims]+)\)(.*)$/s.exec(
+    pattern,
+  ) ?? [undefined, "", pattern];
+  const source = body.replaceAll(String.raw`\x{`, String.raw`\u{`);
+
+  try {
+    return new RegExp(source, `${flags}u`);
+  } catch {
+    try {
+      return new RegExp(source, flags);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Rewrites JS-only regex syntax into its PCRE equivalent, e.g. `\u{1F600}`
+ * into `\x{1F600}` and `[^]` into `[\s\S]`. Constructs without an equivalent
+ * (e.g. variable-length lookbehinds) are reported in `unsupported`.
+ */
+export function toPcrePattern(pattern: string): PcrePattern {
+  const unsupported = new Set<string>();
+
+  // A leading `(?i)`-style group is already PCRE syntax
+  const leading = /^\(\?[imsx]+\)/.exec(pattern)?.[0] ?? "";
+  let output = leading;
+  let index = leading.length;
+  let inClass = false;
+
+  while (index < pattern.length) {
+    const char = pattern[index]!;
+
+    if (char === "\\") {
+      const [rewritten, length] = _rewriteEscape(pattern, index, unsupported);
+      output += rewritten;
+      index += length;
+      continue;
+    }
+
+    if (inClass) {
+      if (char === "]") inClass = false;
+      output += char;
+      index++;
+      continue;
+    }
+
+    // In PCRE, a `]` right after `[` or `[^` is a literal
+    if (pattern.startsWith("[^]", index)) {
+      output += String.raw`[\s\S]`;
+      index += 3;
+      continue;
+    }
+    if (pattern.startsWith("[]", index)) {
+      output += "(?!)";
+      index += 2;
+      continue;
+    }
+
+    if (char === "[") {
+      inClass = true;
+    } else if (
+      (pattern.startsWith("(?<=", index) ||
+        pattern.startsWith("(?<!", index)) &&
+      _isVariableLength(pattern.slice(index + 4, _groupEnd(pattern, index)))
+    ) {
+      unsupported.add("a variable-length lookbehind");
+    }
+
+    output += char;
+    index++;
+  }
+
+  return { pattern: output, unsupported: [...unsupported] };
+}
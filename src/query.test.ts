@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import zodToMongoSchema from "./index.js";
+import { nonConformingDocumentsQuery } from "./query.js";
+import { validateDocument } from "./validate.js";
+
+describe("nonConformingDocumentsQuery", () => {
+  const userSchemaV1 = z.object({
+    name: z.string(),
+    email: z.string(),
+    age: z.int32().optional(),
+  });
+  const userSchemaV2 = z.object({
+    name: z.string(),
+    email: z.email(),
+    age: z.int32().min(0),
+  });
+
+  it("matches documents that fail the whole schema", () => {
+    const { filter } = nonConformingDocumentsQuery(userSchemaV2);
+
+    expect(filter).toEqual({
+      $nor: [{ $jsonSchema: zodToMongoSchema(userSchemaV2) }],
+    });
+  });
+
+  it("counts and samples non-conforming documents", () => {
+    const { filter, pipeline } = nonConformingDocumentsQuery(userSchemaV2, {
+      sampleSize: 5,
+    });
+
+    expect(pipeline).toEqual([
+      { $match: filter },
+      {
+        $facet: {
+          count: [{ $count: "count" }],
+          sample: [{ $sample: { size: 5 } }],
+        },
+      },
+      {
+        $project: {
+          count: { $ifNull: [{ $arrayElemAt: ["$count.count", 0] }, 0] },
+          sample: 1,
+        },
+      },
+    ]);
+  });
+
+  it("only checks fields with breaking changes with `changedSince`", () => {
+    const { filter, pipeline } = nonConformingDocumentsQuery(userSchemaV2, {
+      changedSince: userSchemaV1,
+    });
+    const properties = zodToMongoSchema(userSchemaV2).properties!;
+
+    expect(filter).toEqual({
+      $nor: [
+        {
+          $jsonSchema: {
+            properties: { email: properties.email, age: properties.age },
+            required: ["email", "age"],
+          },
+        },
+      ],
+    });
+    expect(pipeline[1]).toEqual({
+      $facet: {
+        count: [{ $count: "count" }],
+        sample: [
+          { $sample: { size: 10 } },
+          { $project: { _id: 1, email: 1, age: 1 } },
+        ],
+      },
+    });
+  });
+
+  it("matches nothing when no change is breaking", () => {
+    const { filter } = nonConformingDocumentsQuery(
+      userSchemaV1.extend({ nickname: z.string().optional() }),
+      { changedSince: userSchemaV1 },
+    );
+
+    expect(filter).toEqual({ $nor: [{ $jsonSchema: { properties: {} } }] });
+  });
+
+  it("matches documents that still have fields removed from strict objects", () => {
+    const { filter } = nonConformingDocumentsQuery(
+      userSchemaV1.omit({ age: true }),
+      {
+        changedSince: userSchemaV1,
+      },
+    );
+    const [{ $jsonSchema }] = filter.$nor;
+
+    expect($jsonSchema).toEqual({ properties: { age: { not: {} } } });
+    expect(validateDocument({ age: 30 }, $jsonSchema).valid).toBe(false);
+    expect(validateDocument({ name: "Ada" }, $jsonSchema).valid).toBe(true);
+  });
+
+  it("checks the whole schema when the root changed", () => {
+    const looseSchema = z.looseObject({ name: z.string() });
+    const strictSchema = z.object({ name: z.string() });
+
+    const { filter } = nonConformingDocumentsQuery(strictSchema, {
+      changedSince: zodToMongoSchema(looseSchema),
+    });
+
+    expect(filter).toEqual({
+      $nor: [{ $jsonSchema: zodToMongoSchema(strictSchema) }],
+    });
+  });
+});
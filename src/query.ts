@@ -0,0 +1,139 @@
+import type * as z4 from "zod/v4/core";
+
+import { breakingProperties, toMongoSchema } from "./diff.js";
+import type { ZodToMongoSchemaOptions } from "./index.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * Options for generating a query for non-conforming documents.
+ */
+export interface NonConformingQueryOptions extends ZodToMongoSchemaOptions {
+  /**
+   * The current version of the schema. When given, only the top-level fields
+   * with breaking changes (see `diffSchemas`) are checked, so documents that
+   * already violate the current validator aren't reported again.
+   */
+  changedSince?: z4.$ZodType | MongoSchema;
+
+  /**
+   * How many non-conforming documents the pipeline samples.
+   *
+   * @default 10
+   */
+  sampleSize?: number;
+}
+
+/**
+ * A query filter and an aggregation pipeline for documents that don't match a
+ * schema.
+ */
+export interface NonConformingQuery {
+  /** Matches every non-conforming document, e.g. for `find()` */
+  filter: { $nor: [{ $jsonSchema: MongoSchema }] };
+  /**
+   * Outputs a single `{ count, sample }` document, with the number of
+   * non-conforming documents and a random sample of them.
+   */
+  pipeline: Record<string, unknown>[];
+}
+
+/**
+ * Keeps the given top-level properties of a schema, and drops everything else.
+ * Properties the schema no longer lists are validated like any unlisted
+ * property, e.g. rejected if it has `additionalProperties: false`.
+ *
+ * @internal
+ */
+function _scopeSchema(
+  schema: MongoSchema,
+  properties: Set<string>,
+): MongoSchema {
+  const { additionalProperties } = schema;
+  const unlisted =
+    additionalProperties === false ? { not: {} } : additionalProperties;
+
+  const scoped: MongoSchema = {
+    properties: Object.fromEntries(
+      [...properties].flatMap((key) => {
+        const property = schema.properties?.[key] ?? unlisted;
+        return typeof property === "object" ? [[key, property]] : [];
+      }),
+    ),
+  };
+
+  const required = schema.required?.filter((key) => properties.has(key));
+  if (required && required.length > 0) scoped.required = required;
+
+  return scoped;
+}
+
+/**
+ * Generates a query filter and an aggregation pipeline that find the
+ * documents that don't match a schema. Run them before applying a stricter
+ * validator, to know which documents would start failing validation.
+ *
+ * With `changedSince`, only the fields with breaking changes since the
+ * current version are checked, and the sample is projected to those fields.
+ *
+ * @param schema The new schema: a Zod schema, or a `MongoSchema`.
+ * @param options The current schema, sample size and converter options.
+ * @returns A `find()` filter and an `aggregate()` pipeline.
+ *
+ * @example
+ * import z from "zod";
+ * import { nonConformingDocumentsQuery } from "zod-to-mongo-schema";
+ *
+ * const { filter, pipeline } = nonConformingDocumentsQuery(userSchemaV2, {
+ *   changedSince: userSchemaV1,
+ * });
+ *
+ * const [{ count, sample }] = await users.aggregate(pipeline).toArray();
+ * const cursor = users.find(filter);
+ */
+export function nonConformingDocumentsQuery(
+  schema: z4.$ZodType | MongoSchema,
+  options: NonConformingQueryOptions = {},
+): NonConformingQuery {
+  const { changedSince, sampleSize = 10, ...converterOptions } = options;
+
+  let $jsonSchema = toMongoSchema(schema, converterOptions);
+  let fields: Set<string> | undefined;
+
+  if (changedSince) {
+    fields = breakingProperties(
+      toMongoSchema(changedSince, converterOptions),
+      $jsonSchema,
+    );
+    if (fields) $jsonSchema = _scopeSchema($jsonSchema, fields);
+  }
+
+  const filter: NonConformingQuery["filter"] = { $nor: [{ $jsonSchema }] };
+
+  const sample: Record<string, unknown>[] = [{ $sample: { size: sampleSize } }];
+  if (fields) {
+    sample.push({
+      $project: Object.fromEntries(
+        ["_id", ...fields].map((field) => [field, 1]),
+      ),
+    });
+  }
+
+  return {
+    filter,
+    pipeline: [
+      { $match: filter },
+      {
+        $facet: {
+          count: [{ $count: "count" }],
+          sample,
+        },
+      },
+      {
+        $project: {
+          count: { $ifNull: [{ $arrayElemAt: ["$count.count", 0] }, 0] },
+          sample: 1,
+        },
+      },
+    ],
+  };
+}
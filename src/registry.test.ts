@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import { diffSchemas } from "./diff.js";
+import zodToMongoSchema from "./index.js";
+import { createCollectionRegistry, defineCollection } from "./registry.js";
+import { mongoDocumentType } from "./typegen.js";
+
+describe("collection registry", () => {
+  const userSchema = z.object({ name: z.string(), age: z.int32().min(0) });
+  const orderSchema = z.object({ total: z.number() });
+
+  const users = defineCollection("users", userSchema, {
+    validationLevel: "moderate",
+    meta: { owner: "identity" },
+  });
+  const orders = defineCollection("orders", orderSchema);
+
+  it("converts every collection's schema", () => {
+    const registry = createCollectionRegistry([users, orders]);
+
+    expect(registry.get("orders")).toBe(orders);
+    expect(registry.get("products")).toBeUndefined();
+    expect(registry.validators()).toEqual({
+      users: zodToMongoSchema(userSchema),
+      orders: zodToMongoSchema(orderSchema),
+    });
+  });
+
+  it("passes converter options through", () => {
+    const schema = z.object({
+      data: z.instanceof(Uint8Array).meta({ bsonType: "binData" }),
+    });
+
+    expect(() =>
+      createCollectionRegistry([
+        defineCollection("files", schema),
+      ]).validators(),
+    ).toThrowError(/`bsonType` can only be used with `z\.unknown\(\)`./);
+
+    const registry = createCollectionRegistry([
+      defineCollection("files", schema, { strict: false }),
+    ]);
+    expect(registry.validators().files?.properties?.data).toEqual({
+      bsonType: "binData",
+    });
+  });
+
+  it("generates commands with each collection's validation settings", () => {
+    const registry = createCollectionRegistry([users, orders]);
+
+    expect(registry.createCommands()).toEqual([
+      {
+        create: "users",
+        validator: { $jsonSchema: zodToMongoSchema(userSchema) },
+        validationLevel: "moderate",
+        validationAction: "error",
+      },
+      {
+        create: "orders",
+        validator: { $jsonSchema: zodToMongoSchema(orderSchema) },
+        validationLevel: "strict",
+        validationAction: "error",
+      },
+    ]);
+    expect(registry.modifyCommands().map(({ collMod }) => collMod)).toEqual([
+      "users",
+      "orders",
+    ]);
+  });
+
+  it("exports a JSON manifest with metadata", () => {
+    const manifest = createCollectionRegistry([users, orders]).manifest();
+
+    expect(manifest).toEqual({
+      users: {
+        validator: { $jsonSchema: zodToMongoSchema(userSchema) },
+        validationLevel: "moderate",
+        validationAction: "error",
+        meta: { owner: "identity" },
+      },
+      orders: {
+        validator: { $jsonSchema: zodToMongoSchema(orderSchema) },
+        validationLevel: "strict",
+        validationAction: "error",
+      },
+    });
+    const serialized = JSON.stringify(manifest);
+    expect(JSON.parse(serialized)).toEqual(manifest);
+  });
+
+  it("diffs against a previous registry or manifest", () => {
+    const before = createCollectionRegistry([users, orders]);
+    const after = createCollectionRegistry([
+      defineCollection("users", userSchema.extend({ age: z.int32().min(18) })),
+      defineCollection("orders", orderSchema),
+      defineCollection("products", z.object({ sku: z.string() })),
+    ]);
+
+    const diff = after.diff(before);
+
+    expect(diff).toEqual({
+      breaking: true,
+      added: ["products"],
+      removed: [],
+      changed: {
+        users: {
+          breaking: true,
+          changes: [
+            ...diffSchemas(
+              userSchema,
+              userSchema.extend({ age: z.int32().min(18) }),
+            ).changes,
+            expect.objectContaining({ kind: "validation_level_changed" }),
+          ],
+        },
+      },
+    });
+    const snapshot = JSON.stringify(before.manifest());
+    expect(after.diff(JSON.parse(snapshot))).toEqual(diff);
+    expect(before.diff(after)).toMatchObject({
+      breaking: false,
+      added: [],
+      removed: ["products"],
+    });
+  });
+
+  it("returns copies of its cached entries", () => {
+    const registry = createCollectionRegistry([users]);
+
+    registry.manifest().users!.validationLevel = "off";
+    registry.validators().users!.required = [];
+
+    expect(registry.manifest().users?.validationLevel).toBe("moderate");
+    expect(registry.validators().users?.required).toEqual(["name", "age"]);
+  });
+
+  it("passes metadata through as-is", () => {
+    const owner = { notify: () => {}, since: new URL("https://example.com") };
+    const registry = createCollectionRegistry([
+      defineCollection("users", userSchema, { meta: { owner } }),
+    ]);
+
+    expect(registry.manifest().users?.meta?.owner).toBe(owner);
+  });
+
+  it("keeps the allowed `_id` out of types generated from its validators", () => {
+    const registry = createCollectionRegistry([users]);
+
+    expect(mongoDocumentType(registry.validators().users!)).not.toContain(
+      "_id",
+    );
+  });
+
+  it("diffs validation levels and actions", () => {
+    const before = createCollectionRegistry([users, orders]);
+    const after = createCollectionRegistry([
+      defineCollection("users", userSchema, {
+        validationLevel: "strict",
+        meta: { owner: "identity" },
+      }),
+      defineCollection("orders", orderSchema, { validationAction: "warn" }),
+    ]);
+
+    expect(after.diff(before)).toEqual({
+      breaking: true,
+      added: [],
+      removed: [],
+      changed: {
+        users: {
+          breaking: true,
+          changes: [
+            {
+              path: "",
+              kind: "validation_level_changed",
+              compatibility: "breaking",
+              message: '`validationLevel` changed from "moderate" to "strict".',
+            },
+          ],
+        },
+        orders: {
+          breaking: false,
+          changes: [
+            {
+              path: "",
+              kind: "validation_action_changed",
+              compatibility: "compatible",
+              message: '`validationAction` changed from "error" to "warn".',
+            },
+          ],
+        },
+      },
+    });
+    expect(before.diff(after).changed.orders?.breaking).toBe(true);
+  });
+
+  it("rejects duplicate collection names", () => {
+    expect(() => createCollectionRegistry([users, users])).toThrowError(
+      'Collection "users" is defined more than once.',
+    );
+  });
+});
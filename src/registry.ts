@@ -0,0 +1,304 @@
+import type * as z4 from "zod/v4/core";
+
+import {
+  type CollectionCommandOptions,
+  type CreateCollectionCommand,
+  type ModifyCollectionCommand,
+  modifyCollectionCommand,
+} from "./command.js";
+import { diffSchemas, type SchemaChange, type SchemaDiff } from "./diff.js";
+import { cloneSchema } from "./id.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * Options for a collection in a registry.
+ */
+export interface CollectionOptions extends CollectionCommandOptions {
+  /**
+   * Any metadata about the collection (e.g. the team that owns it), copied
+   * as-is to the manifest.
+   */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * A collection's name, Zod schema and options, as returned by
+ * `defineCollection`.
+ */
+export interface CollectionDefinition {
+  name: string;
+  schema: z4.$ZodType;
+  options: CollectionOptions;
+}
+
+/**
+ * A collection's validator and validation settings in a manifest, like in a
+ * `collMod` command.
+ */
+export type CollectionManifestEntry = Omit<ModifyCollectionCommand, "collMod"> &
+  Pick<CollectionOptions, "meta">;
+
+/**
+ * Every collection of a registry by name, as plain JSON.
+ */
+export type CollectionManifest = Record<string, CollectionManifestEntry>;
+
+/**
+ * The differences between two versions of a registry.
+ */
+export interface CollectionRegistryDiff {
+  /** Whether existing documents of any collection may start failing validation */
+  breaking: boolean;
+  /** Collections that are only in the new version */
+  added: string[];
+  /** Collections that are only in the old version */
+  removed: string[];
+  /**
+   * The validator and validation level/action changes of collections in both
+   * versions, if any
+   */
+  changed: Record<string, SchemaDiff>;
+}
+
+/**
+ * A set of collections, as returned by `createCollectionRegistry`.
+ */
+export interface CollectionRegistry {
+  /** The collections, in the order they were given */
+  readonly collections: readonly CollectionDefinition[];
+
+  /** Returns the collection with the given name, if any */
+  get(name: string): CollectionDefinition | undefined;
+
+  /** Converts every collection's schema, and returns them by name */
+  validators(): Record<string, MongoSchema>;
+
+  /** Returns a `create` command for every collection */
+  createCommands(): CreateCollectionCommand[];
+
+  /** Returns a `collMod` command for every collection */
+  modifyCommands(): ModifyCollectionCommand[];
+
+  /**
+   * Returns every collection's validator, validation settings and metadata,
+   * e.g. to commit as a snapshot or pass to migration tooling.
+   */
+  manifest(): CollectionManifest;
+
+  /**
+   * Compares the validators and validation settings of a previous version of
+   * the registry (or its manifest, e.g. read from a committed snapshot) with
+   * this one.
+   */
+  diff(
+    previous: CollectionRegistry | CollectionManifest,
+  ): CollectionRegistryDiff;
+}
+
+/** The validation levels, from the one that applies to the fewest writes */
+const VALIDATION_LEVELS = ["off", "moderate", "strict"];
+
+/**
+ * Compares the validation level and action of a collection. Applying the
+ * validator to more writes, or rejecting writes it only warned about, is
+ * breaking.
+ *
+ * @internal
+ */
+function _settingsChanges(
+  before: CollectionManifestEntry,
+  after: CollectionManifestEntry,
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  if (before.validationLevel !== after.validationLevel) {
+    const tightened =
+      VALIDATION_LEVELS.indexOf(after.validationLevel) >
+      VALIDATION_LEVELS.indexOf(before.validationLevel);
+    changes.push({
+      path: "",
+      kind: "validation_level_changed",
+      compatibility: tightened ? "breaking" : "compatible",
+      message: `\`validationLevel\` changed from "${before.validationLevel}" to "${after.validationLevel}".`,
+    });
+  }
+
+  if (before.validationAction !== after.validationAction) {
+    changes.push({
+      path: "",
+      kind: "validation_action_changed",
+      compatibility:
+        before.validationAction === "warn" ? "breaking" : "compatible",
+      message: `\`validationAction\` changed from "${before.validationAction}" to "${after.validationAction}".`,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Groups a collection's name, Zod schema, converter options, validation
+ * level/action and metadata, to add it to a registry with
+ * `createCollectionRegistry`.
+ *
+ * @param name The name of the collection.
+ * @param schema The Zod schema of the collection's documents.
+ * @param options Validation level/action, metadata and converter options.
+ * @returns The collection definition.
+ *
+ * @example
+ * import z from "zod";
+ * import { defineCollection } from "zod-to-mongo-schema";
+ *
+ * export const users = defineCollection("users", userSchema, {
+ *   validationLevel: "moderate",
+ *   meta: { owner: "identity" },
+ * });
+ */
+export function defineCollection(
+  name: string,
+  schema: z4.$ZodType,
+  options: CollectionOptions = {},
+): CollectionDefinition {
+  return { name, schema, options };
+}
+
+/**
+ * Creates a registry of collections, to convert, diff and export all of their
+ * validators from one place. Each schema is converted once, the first time
+ * it's needed.
+ *
+ * @param collections The collections, from `defineCollection`.
+ * @returns The registry.
+ * @throws If two collections have the same name.
+ *
+ * @example
+ * import { createCollectionRegistry } from "zod-to-mongo-schema";
+ *
+ * const registry = createCollectionRegistry([users, orders, products]);
+ *
+ * for (const command of registry.modifyCommands()) {
+ *   await db.command(command);
+ * }
+ */
+export function createCollectionRegistry(
+  collections: CollectionDefinition[],
+): CollectionRegistry {
+  const byName = new Map<string, CollectionDefinition>();
+  for (const collection of collections) {
+    if (byName.has(collection.name)) {
+      throw new Error(
+        `Collection "${collection.name}" is defined more than once.`,
+      );
+    }
+    byName.set(collection.name, collection);
+  }
+
+  const entries = new Map<string, CollectionManifestEntry>();
+  const entry = ({ name, schema, options }: CollectionDefinition) => {
+    let cached = entries.get(name);
+    if (!cached) {
+      const { meta, ...commandOptions } = options;
+      const { validator, validationLevel, validationAction } =
+        modifyCollectionCommand(name, schema, commandOptions);
+      cached = {
+        validator,
+        validationLevel,
+        validationAction,
+        ...(meta ? { meta } : {}),
+      };
+      entries.set(name, cached);
+    }
+    // The validator is copied, so callers can't change the cache. The
+    // metadata is the caller's own, and may not be cloneable.
+    return {
+      ...cached,
+      validator: { $jsonSchema: cloneSchema(cached.validator.$jsonSchema) },
+    };
+  };
+
+  const registry: CollectionRegistry = {
+    collections: [...collections],
+
+    get: (name) => byName.get(name),
+
+    validators: () =>
+      Object.fromEntries(
+        collections.map((collection) => [
+          collection.name,
+          entry(collection).validator.$jsonSchema,
+        ]),
+      ),
+
+    createCommands: () =>
+      collections.map((collection) => {
+        const { validator, validationLevel, validationAction } =
+          entry(collection);
+        return {
+          create: collection.name,
+          validator,
+          validationLevel,
+          validationAction,
+        };
+      }),
+
+    modifyCommands: () =>
+      collections.map((collection) => {
+        const { validator, validationLevel, validationAction } =
+          entry(collection);
+        return {
+          collMod: collection.name,
+          validator,
+          validationLevel,
+          validationAction,
+        };
+      }),
+
+    manifest: () =>
+      Object.fromEntries(
+        collections.map((collection) => [collection.name, entry(collection)]),
+      ),
+
+    diff: (previous) => {
+      const before =
+        typeof previous.manifest === "function"
+          ? (previous as CollectionRegistry).manifest()
+          : (previous as CollectionManifest);
+      const after = registry.manifest();
+
+      const changed: Record<string, SchemaDiff> = {};
+      for (const [name, current] of Object.entries(after)) {
+        if (!Object.hasOwn(before, name)) continue;
+
+        const changes = [
+          ...diffSchemas(
+            before[name]!.validator.$jsonSchema,
+            current.validator.$jsonSchema,
+          ).changes,
+          ..._settingsChanges(before[name]!, current),
+        ];
+        if (changes.length > 0) {
+          changed[name] = {
+            breaking: changes.some(
+              ({ compatibility }) => compatibility === "breaking",
+            ),
+            changes,
+          };
+        }
+      }
+
+      return {
+        breaking: Object.values(changed).some(({ breaking }) => breaking),
+        added: Object.keys(after).filter(
+          (name) => !Object.hasOwn(before, name),
+        ),
+        removed: Object.keys(before).filter(
+          (name) => !Object.hasOwn(after, name),
+        ),
+        changed,
+      };
+    },
+  };
+
+  return registry;
+}
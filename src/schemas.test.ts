@@ -0,0 +1,131 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import z from "zod";
+
+import zodToMongoSchema from "./index.js";
+import {
+  type LongLike,
+  type ObjectIdLike,
+  zBinary,
+  zDecimal128,
+  zJavascript,
+  zLong,
+  zObjectId,
+  zRegex,
+  zTimestamp,
+} from "./schemas.js";
+
+/** Minimal stand-ins for `bson` classes, recognized by `_bsontype` */
+const objectId = { _bsontype: "ObjectId", toHexString: () => "a".repeat(24) };
+const decimal128 = { _bsontype: "Decimal128", toString: () => "1.5" };
+const long = { _bsontype: "Long", toString: () => "1" };
+const binary = { _bsontype: "Binary", buffer: new Uint8Array(), sub_type: 0 };
+const bsonRegExp = { _bsontype: "BSONRegExp", pattern: "a", options: "i" };
+const code = { _bsontype: "Code", code: "function () {}" };
+const timestamp = { _bsontype: "Timestamp", t: 1, i: 1 };
+
+describe("BSON helpers", () => {
+  it("convert to their BSON types in strict mode", () => {
+    const schema = z.object({
+      _id: zObjectId(),
+      balance: zDecimal128(),
+      counter: zLong(),
+      data: zBinary(),
+      matcher: zRegex(),
+      body: zJavascript(),
+      ts: zTimestamp(),
+    });
+
+    const r = zodToMongoSchema(schema);
+
+    expect(r.properties).toEqual({
+      _id: { bsonType: "objectId" },
+      balance: { bsonType: "decimal" },
+      counter: { bsonType: "long" },
+      data: { bsonType: "binData" },
+      matcher: { bsonType: "regex" },
+      body: { bsonType: "javascript" },
+      ts: { bsonType: "timestamp" },
+    });
+  });
+
+  it("keep their BSON type regardless of chained methods", () => {
+    const schema = z.object({
+      a: zObjectId().nullable(),
+      b: zObjectId().optional().meta({ description: "Manager" }),
+      c: zObjectId()
+        .refine((value) => value.toHexString().length === 24)
+        .nullable(),
+      d: z.array(zObjectId()),
+    });
+
+    const r = zodToMongoSchema(schema);
+
+    expect(r.properties?.a).toEqual({ bsonType: ["objectId", "null"] });
+    expect(r.properties?.b).toEqual({
+      description: "Manager",
+      bsonType: "objectId",
+    });
+    expect(r.properties?.c).toEqual({ bsonType: ["objectId", "null"] });
+    expect(r.properties?.d).toEqual({
+      type: "array",
+      items: { bsonType: "objectId" },
+    });
+    expect(r.required).toEqual(["a", "c", "d"]);
+  });
+
+  it("throw when `bsonType` is overridden in strict mode", () => {
+    const schema = z.object({ id: zObjectId().meta({ bsonType: "string" }) });
+
+    expect(() => zodToMongoSchema(schema)).toThrowError(
+      /`bsonType` can only be used with `z\.unknown\(\)`./,
+    );
+    expect(zodToMongoSchema(schema, { strict: false }).properties?.id).toEqual({
+      bsonType: "string",
+    });
+  });
+
+  it("validate values at runtime by duck-typing", () => {
+    const cases = [
+      [zObjectId(), objectId],
+      [zDecimal128(), decimal128],
+      [zLong(), long],
+      [zLong(), 5n],
+      [zBinary(), binary],
+      [zBinary(), new Uint8Array([1])],
+      [zRegex(), bsonRegExp],
+      [zRegex(), /a/i],
+      [zJavascript(), code],
+      [zTimestamp(), timestamp],
+    ] as const;
+
+    for (const [schema, value] of cases) {
+      expect(schema.safeParse(value).success).toBe(true);
+      expect(schema.safeParse("nope").success).toBe(false);
+    }
+  });
+
+  it("reject values the driver would store as another BSON type", () => {
+    expect(zLong().safeParse(1).success).toBe(false);
+    expect(zLong().safeParse(2n ** 63n).success).toBe(false);
+    expect(zObjectId().safeParse("a".repeat(24)).success).toBe(false);
+    expect(zJavascript().safeParse(() => {}).success).toBe(false);
+  });
+
+  it("report readable errors, or custom ones", () => {
+    expect(zObjectId().safeParse(1).error?.issues[0]?.message).toBe(
+      "Invalid input: expected objectId",
+    );
+    expect(
+      zObjectId("Must be an ObjectId").safeParse(1).error?.issues[0]?.message,
+    ).toBe("Must be an ObjectId");
+  });
+
+  it("infer BSON-like TypeScript types", () => {
+    const schema = z.object({ _id: zObjectId(), counter: zLong() });
+
+    expectTypeOf(schema.parse).returns.toEqualTypeOf<{
+      _id: ObjectIdLike;
+      counter: LongLike | bigint;
+    }>();
+  });
+});
@@ -0,0 +1,203 @@
+import { z } from "zod/v4";
+import type * as z4 from "zod/v4/core";
+
+import { bsonTypeOf } from "./bson.js";
+import type { MongoBSONType } from "./zod.js";
+
+/**
+ * Structural stand-ins for the `bson` package classes, so the helpers infer
+ * useful types without depending on it. Values from the `bson` package (or
+ * the MongoDB driver) satisfy these.
+ */
+export interface ObjectIdLike {
+  readonly _bsontype: "ObjectId" | "ObjectID";
+  toHexString(): string;
+}
+
+export interface Decimal128Like {
+  readonly _bsontype: "Decimal128";
+  toString(): string;
+}
+
+export interface LongLike {
+  readonly _bsontype: "Long";
+  toString(radix?: number): string;
+}
+
+export interface BinaryLike {
+  readonly _bsontype: "Binary";
+  readonly buffer: Uint8Array;
+  readonly sub_type: number;
+}
+
+export interface BSONRegExpLike {
+  readonly _bsontype: "BSONRegExp";
+  readonly pattern: string;
+  readonly options: string;
+}
+
+export interface CodeLike {
+  readonly _bsontype: "Code";
+  readonly code: string;
+}
+
+export interface TimestampLike {
+  readonly _bsontype: "Timestamp";
+  readonly t: number;
+  readonly i: number;
+}
+
+type BSONSchemaParameters = string | z4.$ZodCustomParams;
+
+const INT64_MIN = -9_223_372_036_854_775_808n;
+const INT64_MAX = 9_223_372_036_854_775_807n;
+
+/**
+ * The BSON type of each helper's check. Schemas derived with chained methods
+ * like `.refine()` keep the check in their definition, unlike `.meta()`, so
+ * there's no ordering to get right.
+ */
+const BSON_TYPES = new WeakMap<(value: unknown) => unknown, MongoBSONType>();
+
+/**
+ * Creates a `z.custom()` schema that checks values by their BSON type, and
+ * records that type for its check.
+ *
+ * @internal
+ */
+function _bsonSchema<T>(
+  bsonType: MongoBSONType,
+  check: (value: unknown) => boolean,
+  parameters: BSONSchemaParameters | undefined,
+) {
+  const normalized =
+    typeof parameters === "string" ? { error: parameters } : parameters;
+
+  BSON_TYPES.set(check, bsonType);
+  return z.custom<T>(check, {
+    error: `Invalid input: expected ${bsonType}`,
+    ...normalized,
+  });
+}
+
+/**
+ * The BSON type of a schema created with a BSON helper (e.g. `zObjectId()`).
+ *
+ * @internal
+ */
+export function helperBSONType(
+  schema: z4.$ZodType | undefined,
+): MongoBSONType | undefined {
+  const definition = schema?._zod.def;
+  return definition?.type === "custom"
+    ? BSON_TYPES.get((definition as z4.$ZodCustomDef).fn)
+    : undefined;
+}
+
+/**
+ * A BSON `objectId`, e.g. an `ObjectId` from the `bson` package.
+ *
+ * @example
+ * const userSchema = z.object({ _id: zObjectId() });
+ */
+export function zObjectId(parameters?: BSONSchemaParameters) {
+  return _bsonSchema<ObjectIdLike>(
+    "objectId",
+    (value) => bsonTypeOf(value) === "objectId",
+    parameters,
+  );
+}
+
+/**
+ * A BSON `decimal`, e.g. a `Decimal128` from the `bson` package.
+ *
+ * @example
+ * const accountSchema = z.object({ balance: zDecimal128() });
+ */
+export function zDecimal128(parameters?: BSONSchemaParameters) {
+  return _bsonSchema<Decimal128Like>(
+    "decimal",
+    (value) => bsonTypeOf(value) === "decimal",
+    parameters,
+  );
+}
+
+/**
+ * A BSON `long`: either a `Long` from the `bson` package or a `bigint`
+ * within the 64-bit range. Plain `number`s are rejected, since the driver
+ * stores them as `int` or `double`.
+ *
+ * @example
+ * const counterSchema = z.object({ value: zLong() });
+ */
+export function zLong(parameters?: BSONSchemaParameters) {
+  return _bsonSchema<LongLike | bigint>(
+    "long",
+    (value) =>
+      typeof value === "bigint"
+        ? value >= INT64_MIN && value <= INT64_MAX
+        : bsonTypeOf(value) === "long",
+    parameters,
+  );
+}
+
+/**
+ * BSON `binData`: either a `Binary` from the `bson` package or a
+ * `Uint8Array` (including Node.js `Buffer`s).
+ *
+ * @example
+ * const fileSchema = z.object({ data: zBinary() });
+ */
+export function zBinary(parameters?: BSONSchemaParameters) {
+  return _bsonSchema<BinaryLike | Uint8Array>(
+    "binData",
+    (value) => bsonTypeOf(value) === "binData",
+    parameters,
+  );
+}
+
+/**
+ * A BSON `regex`: either a `RegExp` or a `BSONRegExp` from the `bson`
+ * package.
+ *
+ * @example
+ * const ruleSchema = z.object({ matcher: zRegex() });
+ */
+export function zRegex(parameters?: BSONSchemaParameters) {
+  return _bsonSchema<RegExp | BSONRegExpLike>(
+    "regex",
+    (value) => bsonTypeOf(value) === "regex",
+    parameters,
+  );
+}
+
+/**
+ * BSON `javascript`, e.g. a `Code` from the `bson` package (without a
+ * scope).
+ *
+ * @example
+ * const functionSchema = z.object({ body: zJavascript() });
+ */
+export function zJavascript(parameters?: BSONSchemaParameters) {
+  return _bsonSchema<CodeLike>(
+    "javascript",
+    (value) =>
+      bsonTypeOf(value) === "javascript" && typeof value !== "function",
+    parameters,
+  );
+}
+
+/**
+ * A BSON `timestamp`, e.g. a `Timestamp` from the `bson` package. This is
+ * mostly used internally by MongoDB; use `z.date()` for regular dates.
+ *
+ * @example
+ * const oplogSchema = z.object({ ts: zTimestamp() });
+ */
+export function zTimestamp(parameters?: BSONSchemaParameters) {
+  return _bsonSchema<TimestampLike>(
+    "timestamp",
+    (value) => bsonTypeOf(value) === "timestamp",
+    parameters,
+  );
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import zodToMongoSchema from "./index.js";
+import { zBinary, zDecimal128, zObjectId } from "./schemas.js";
+import { mongoDocumentType } from "./typegen.js";
+
+describe("mongoDocumentType", () => {
+  it("types BSON values as the driver returns them", () => {
+    const schema = z.object({
+      _id: zObjectId(),
+      name: z.string().describe("Display name"),
+      age: z.int32().min(0).optional(),
+      views: z.int(),
+      balance: zDecimal128(),
+      avatar: zBinary().nullable(),
+      createdAt: z.date(),
+      sequence: z.unknown().meta({ bsonType: "timestamp" }),
+    });
+
+    expect(mongoDocumentType(schema, { name: "UserDocument" })).toBe(
+      `import type { Binary, Decimal128, Long, ObjectId, Timestamp } from "mongodb";
+
+export interface UserDocument {
+  _id: ObjectId;
+  /** Display name */
+  name: string;
+  age?: number;
+  views: number | Long;
+  balance: Decimal128;
+  avatar: Binary | null;
+  createdAt: Date;
+  sequence: Timestamp;
+}
+`,
+    );
+  });
+
+  it("types nested objects, arrays, enums and unions", () => {
+    const schema = z.object({
+      tags: z.array(z.union([z.string(), z.number()])),
+      point: z.tuple([z.number(), z.number()]),
+      role: z.enum(["user", "admin"]),
+      settings: z.record(z.string(), z.boolean()),
+      extra: z.looseObject({ source: z.string() }),
+      labels: z
+        .object({ main: z.string(), "alt-text": z.string().optional() })
+        .catchall(z.number()),
+      pet: z.discriminatedUnion("kind", [
+        z.object({ kind: z.literal("cat"), lives: z.int32() }),
+        z.object({ kind: z.literal("dog") }),
+      ]),
+    });
+
+    expect(mongoDocumentType(schema)).toBe(`export interface StoredDocument {
+  tags: (string | number)[];
+  point: [number, number];
+  role: "user" | "admin";
+  settings: Record<string, boolean>;
+  extra: {
+    source: string;
+    [key: string]: unknown;
+  };
+  labels: {
+    main: string;
+    "alt-text"?: string;
+    [key: string]: number | string | undefined;
+  };
+  pet: {
+    kind: "cat";
+    lives: number;
+  } | {
+    kind: "dog";
+  };
+}
+`);
+  });
+
+  it("leaves out the `_id` allowed in root objects", () => {
+    const described = z
+      .unknown()
+      .meta({
+        description: "Added by MongoDB to inserted documents without an `_id`",
+      })
+      .optional();
+
+    expect(
+      mongoDocumentType(z.object({ name: z.string() }).catchall(z.number())),
+    ).toBe(`export interface StoredDocument {
+  name: string;
+  [key: string]: number | string;
+}
+`);
+    expect(mongoDocumentType(z.object({ _id: described }))).toContain(
+      "_id?: unknown;",
+    );
+  });
+
+  it("declares other root types as type aliases", () => {
+    const schema = z.array(z.string().nullable());
+
+    expect(mongoDocumentType(schema, { name: "Names" })).toBe(
+      "export type Names = (string | null)[];\n",
+    );
+  });
+
+  it("accepts `MongoSchema`s and the `long` and `bsonModule` options", () => {
+    const schema = zodToMongoSchema(
+      z.object({ _id: zObjectId(), count: z.bigint() }),
+    );
+
+    expect(mongoDocumentType(schema, { long: "bigint", bsonModule: "bson" }))
+      .toBe(`import type { ObjectId } from "bson";
+
+export interface StoredDocument {
+  _id: ObjectId;
+  count: bigint;
+}
+`);
+    expect(mongoDocumentType(schema, { long: "Long" })).toContain(
+      "count: Long;",
+    );
+    expect(mongoDocumentType(schema, { long: "number" })).toContain(
+      "count: number;",
+    );
+  });
+
+  it("passes converter options through", () => {
+    const schema = z.object({
+      data: z.instanceof(Uint8Array).meta({ bsonType: "binData" }),
+    });
+
+    expect(() => mongoDocumentType(schema)).toThrowError(
+      /`bsonType` can only be used with `z\.unknown\(\)`./,
+    );
+    expect(mongoDocumentType(schema, { strict: false })).toContain(
+      "data: Binary;",
+    );
+  });
+});
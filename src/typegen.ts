@@ -0,0 +1,338 @@
+import type * as z4 from "zod/v4/core";
+
+import { toMongoSchema } from "./diff.js";
+import { isAllowedId } from "./id.js";
+import type { ZodToMongoSchemaOptions } from "./index.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * Options for generating the TypeScript type of stored documents.
+ */
+export interface MongoDocumentTypeOptions extends ZodToMongoSchemaOptions {
+  /**
+   * The name of the exported type.
+   *
+   * @default "StoredDocument"
+   */
+  name?: string;
+
+  /**
+   * The type of `long` values, which depends on how the driver is configured:
+   * `"number | Long"` by default (`promoteLongs` returns a `Long` for values
+   * outside the safe integer range), `"Long"` with `promoteLongs: false`, and
+   * `"bigint"` with `useBigInt64: true`. `"number"` fits if every value is in
+   * the safe integer range.
+   *
+   * @default "number | Long"
+   */
+  long?: "number | Long" | "Long" | "bigint" | "number";
+
+  /**
+   * The module the BSON classes (e.g. `ObjectId`) are imported from.
+   *
+   * @default "mongodb"
+   */
+  bsonModule?: string;
+}
+
+/** @internal */
+interface GeneratorContext {
+  long: NonNullable<MongoDocumentTypeOptions["long"]>;
+  /** The BSON classes used, to be imported */
+  imports: Set<string>;
+}
+
+/** The BSON class the driver returns for each BSON type */
+const BSON_CLASSES: Record<string, string> = {
+  binData: "Binary",
+  decimal: "Decimal128",
+  javascript: "Code",
+  objectId: "ObjectId",
+  timestamp: "Timestamp",
+};
+
+/** The TypeScript type the driver returns for each other BSON type */
+const TS_TYPES: Record<string, string> = {
+  bool: "boolean",
+  date: "Date",
+  double: "number",
+  int: "number",
+  null: "null",
+  // `number` also accepts `long` and `decimal`, but values written from
+  // JavaScript numbers are stored as `int` or `double`
+  number: "number",
+  regex: "RegExp",
+  string: "string",
+};
+
+/** Keywords that only apply to objects */
+const OBJECT_KEYWORDS = [
+  "additionalProperties",
+  "patternProperties",
+  "properties",
+  "required",
+];
+
+/** @internal */
+function _indent(depth: number) {
+  return "  ".repeat(depth);
+}
+
+/** @internal */
+function _propertyKey(key: string) {
+  return /^[$A-Z_a-z][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Whether a type is a union or an intersection, so it needs parentheses
+ * inside another one or an array. Skips strings and comments.
+ *
+ * @internal
+ */
+function _isCompound(type: string) {
+  let depth = 0;
+  let quoted = false;
+
+  for (let index = 0; index < type.length; index++) {
+    const char = type[index]!;
+    if (type.startsWith("/*", index)) {
+      index = type.indexOf("*/", index) + 1;
+    } else if (quoted) {
+      if (char === "\\") index++;
+      else if (char === '"') quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if ("{[(<".includes(char)) {
+      depth++;
+    } else if ("}])>".includes(char)) {
+      depth--;
+    } else if (depth === 0 && (char === "|" || char === "&")) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/** @internal */
+function _group(type: string) {
+  return _isCompound(type) ? `(${type})` : type;
+}
+
+/** @internal */
+function _union(types: string[]) {
+  const unique = [...new Set(types)];
+  return unique.includes("unknown") ? "unknown" : unique.join(" | ");
+}
+
+/** @internal */
+function _comment(schema: MongoSchema, depth: number) {
+  const text = [schema.title, schema.description]
+    .filter((line) => line !== undefined)
+    .join("\n\n")
+    .replaceAll("*/", String.raw`*\/`);
+  if (!text) return "";
+
+  const lines = text.split("\n");
+  if (lines.length === 1) return `${_indent(depth)}/** ${text} */\n`;
+
+  const body = lines.map((line) => `${_indent(depth)} * ${line}`.trimEnd());
+  return `${_indent(depth)}/**\n${body.join("\n")}\n${_indent(depth)} */\n`;
+}
+
+/** @internal */
+function _objectType(
+  schema: MongoSchema,
+  depth: number,
+  context: GeneratorContext,
+) {
+  const { additionalProperties, patternProperties = {} } = schema;
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required);
+
+  // Required properties without a schema accept any value. The `_id` that
+  // `zodToMongoSchema` allows in root objects is left out, so the driver's
+  // `WithId` types it.
+  const keys = [...new Set([...Object.keys(properties), ...required])].filter(
+    (key) =>
+      key !== "_id" || required.has(key) || !isAllowedId(properties[key]),
+  );
+  const propertyTypes = keys.map((key) =>
+    properties[key] ? _toType(properties[key], depth + 1, context) : "unknown",
+  );
+  const members = keys.map((key, index) => {
+    const optional = required.has(key) ? "" : "?";
+    const comment = properties[key] ? _comment(properties[key], depth + 1) : "";
+    return `${comment}${_indent(depth + 1)}${_propertyKey(key)}${optional}: ${propertyTypes[index]};`;
+  });
+
+  // Other keys can have any of the values of `patternProperties` and
+  // `additionalProperties`, and the index signature must include the types
+  // of the listed properties too
+  const valueSchemas = [
+    ...Object.values(patternProperties),
+    ...(typeof additionalProperties === "object" ? [additionalProperties] : []),
+  ];
+  const valueTypes = valueSchemas.map((valueSchema) =>
+    _toType(valueSchema, depth + 1, context),
+  );
+  if (additionalProperties === undefined || additionalProperties === true) {
+    valueTypes.push("unknown");
+  }
+
+  if (valueTypes.length > 0) {
+    const optional = keys.some((key) => !required.has(key))
+      ? ["undefined"]
+      : [];
+    const index = _union([...valueTypes, ...propertyTypes, ...optional]);
+
+    if (keys.length === 0) return `Record<string, ${index}>`;
+    members.push(`${_indent(depth + 1)}[key: string]: ${index};`);
+  }
+
+  if (members.length === 0) return "Record<string, never>";
+  return `{\n${members.join("\n")}\n${_indent(depth)}}`;
+}
+
+/** @internal */
+function _arrayType(
+  schema: MongoSchema,
+  depth: number,
+  context: GeneratorContext,
+) {
+  const { items, additionalItems } = schema;
+
+  if (Array.isArray(items)) {
+    const elements = items.map((item) => _toType(item, depth, context));
+    if (typeof additionalItems === "object") {
+      const rest = _toType(additionalItems, depth, context);
+      elements.push(`...${_group(rest)}[]`);
+    }
+    return `[${elements.join(", ")}]`;
+  }
+
+  const item = items ? _toType(items, depth, context) : "unknown";
+  return `${_group(item)}[]`;
+}
+
+/** @internal */
+function _typeOf(
+  type: string,
+  schema: MongoSchema,
+  depth: number,
+  context: GeneratorContext,
+) {
+  if (type === "object") return _objectType(schema, depth, context);
+  if (type === "array") return _arrayType(schema, depth, context);
+
+  if (type === "long") {
+    if (context.long.includes("Long")) context.imports.add("Long");
+    return context.long;
+  }
+
+  const bsonClass = BSON_CLASSES[type];
+  if (bsonClass) {
+    context.imports.add(bsonClass);
+    return bsonClass;
+  }
+
+  return TS_TYPES[type] ?? "unknown";
+}
+
+/**
+ * Converts a `MongoSchema` to the TypeScript type of the values it accepts,
+ * as the driver returns them.
+ *
+ * @internal
+ */
+function _toType(
+  schema: MongoSchema,
+  depth: number,
+  context: GeneratorContext,
+): string {
+  const parts: string[] = [];
+
+  if (schema.enum) {
+    parts.push(_union(schema.enum.map((value) => JSON.stringify(value))));
+  } else {
+    // Without a type, object keywords imply an object, and `items` an array
+    const inferred = OBJECT_KEYWORDS.some((key) => key in schema)
+      ? ["object"]
+      : "items" in schema
+        ? ["array"]
+        : [];
+    const types = [schema.bsonType ?? schema.type ?? inferred]
+      .flat()
+      .map((type: string) => (type === "boolean" ? "bool" : type));
+    if (types.length > 0) {
+      parts.push(
+        _union(types.map((type) => _typeOf(type, schema, depth, context))),
+      );
+    }
+  }
+
+  for (const options of [schema.anyOf, schema.oneOf]) {
+    if (!options) continue;
+    parts.push(
+      _union(options.map((option) => _toType(option, depth, context))),
+    );
+  }
+  for (const branch of schema.allOf ?? []) {
+    parts.push(_toType(branch, depth, context));
+  }
+
+  const known = parts.filter((part) => part !== "unknown");
+  if (known.length === 0) return "unknown";
+  if (known.length === 1) return known[0]!;
+  return known.map((part) => _group(part)).join(" & ");
+}
+
+/**
+ * Generates TypeScript source code for the type of a collection's documents
+ * as they're stored, and returned by the driver, e.g. for
+ * `db.collection<StoredDocument>()`. Unlike `z.infer`, BSON types are typed
+ * as their driver classes (e.g. `ObjectId` for
+ * `z.unknown().meta({ bsonType: "objectId" })`), following the same
+ * conversion as `zodToMongoSchema`.
+ *
+ * @param schema The schema: a Zod schema, or a `MongoSchema`.
+ * @param options The name of the exported type, how `long`s are typed, and
+ * converter options.
+ * @returns The source of a module exporting the type.
+ *
+ * @example
+ * import { writeFile } from "node:fs/promises";
+ * import { mongoDocumentType } from "zod-to-mongo-schema";
+ *
+ * const source = mongoDocumentType(userSchema, { name: "UserDocument" });
+ * await writeFile("src/types/user-document.ts", source);
+ */
+export function mongoDocumentType(
+  schema: z4.$ZodType | MongoSchema,
+  options: MongoDocumentTypeOptions = {},
+): string {
+  const {
+    name = "StoredDocument",
+    long = "number | Long",
+    bsonModule = "mongodb",
+    ...converterOptions
+  } = options;
+  const context: GeneratorContext = { long, imports: new Set() };
+
+  const type = _toType(toMongoSchema(schema, converterOptions), 0, context);
+
+  const lines: string[] = [];
+  if (context.imports.size > 0) {
+    const imports = [...context.imports].toSorted().join(", ");
+    lines.push(`import type { ${imports} } from "${bsonModule}";`, "");
+  }
+
+  // Object types are declared as interfaces
+  if (type.startsWith("{") && !_isCompound(type)) {
+    lines.push(`export interface ${name} ${type}`, "");
+  } else {
+    lines.push(`export type ${name} = ${type};`, "");
+  }
+
+  return lines.join("\n");
+}
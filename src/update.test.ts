@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import zodToMongoSchema from "./index.js";
+import { zodToMongoSetSchema } from "./update.js";
+import { validateDocument } from "./validate.js";
+import type { MongoSchema } from "./zod.js";
+
+describe("zodToMongoSetSchema", () => {
+  const addressSchema = z.object({ city: z.string(), zip: z.string() });
+  const orderSchema = z.object({
+    status: z.enum(["open", "closed"]),
+    address: addressSchema.nullable(),
+    items: z.array(z.object({ qty: z.int32().min(1) })),
+    metadata: z.record(z.string(), z.string()),
+    point: z.tuple([z.number(), z.number()]),
+  });
+  const setSchema = zodToMongoSetSchema(orderSchema);
+  const full = zodToMongoSchema(orderSchema).properties!;
+
+  it("validates top-level fields against their whole schema", () => {
+    expect(setSchema.properties?.status).toEqual(full.status);
+    expect(setSchema.properties?.address).toEqual(full.address);
+  });
+
+  it("adds literal keys for nested fields and tuple items", () => {
+    expect(setSchema.properties).toMatchObject({
+      "address.city": { type: "string" },
+      "address.zip": { type: "string" },
+      "point.0": { type: "number" },
+      "point.1": { type: "number" },
+    });
+  });
+
+  it("adds patterns for array elements and record keys", () => {
+    const element = String.raw`(?:\d+|\$(?:\[(?:[a-z][\dA-Za-z]*)?\])?)`;
+
+    expect(setSchema.patternProperties).toEqual({
+      [String.raw`^items\.${element}$`]: (full.items as MongoSchema).items,
+      [String.raw`^items\.${element}\.qty$`]: { bsonType: "int", minimum: 1 },
+      [String.raw`^metadata\.[^.]+$`]: { type: "string" },
+      [String.raw`^point\.\$(?:\[(?:[a-z][\dA-Za-z]*)?\])?$`]: {
+        type: "number",
+      },
+    });
+    expect(setSchema.additionalProperties).toBe(false);
+  });
+
+  it("validates `$set` payloads with dotted paths", () => {
+    const valid = {
+      status: "closed",
+      "address.city": "Lagos",
+      "items.2.qty": 3,
+    };
+
+    expect(validateDocument(valid, setSchema).valid).toBe(true);
+    expect(validateDocument({ "items.0.qty": 0 }, setSchema).issues).toEqual([
+      {
+        path: ["items.0.qty"],
+        keyword: "minimum",
+        message: "Expected a number >= 1",
+      },
+    ]);
+    expect(validateDocument({ "address.country": "NG" }, setSchema).valid).toBe(
+      false,
+    );
+  });
+
+  it("accepts positional operators on arrays", () => {
+    for (const path of ["items.$.qty", "items.$[].qty", "items.$[elem].qty"]) {
+      expect(validateDocument({ [path]: 2 }, setSchema).valid).toBe(true);
+      expect(validateDocument({ [path]: 0 }, setSchema).valid).toBe(false);
+    }
+    expect(validateDocument({ "items.$[Elem].qty": 2 }, setSchema).valid).toBe(
+      false,
+    );
+  });
+
+  it("rejects `_id`, which can't be changed", () => {
+    expect(validateDocument({ _id: "a" }, setSchema).issues).toEqual([
+      {
+        path: ["_id"],
+        keyword: "not",
+        message: "Expected value not to match the schema in `not`",
+      },
+    ]);
+    expect(
+      zodToMongoSetSchema(z.record(z.string(), z.string())).properties,
+    ).toEqual({ _id: { not: {} } });
+  });
+
+  it("accepts unknown fields of objects that accept unknown keys", () => {
+    const passthrough = zodToMongoSetSchema(orderSchema, {
+      unknownKeys: "passthrough",
+    });
+    const loose = zodToMongoSetSchema(
+      z.object({ status: z.string(), extra: z.looseObject({ a: z.int32() }) }),
+    );
+
+    expect(
+      validateDocument({ note: "x", "address.country": "NG" }, passthrough)
+        .valid,
+    ).toBe(true);
+    expect(validateDocument({ "items.0.qty": 0 }, passthrough).valid).toBe(
+      false,
+    );
+    expect(validateDocument({ "_id.a": 1 }, passthrough).valid).toBe(false);
+    expect(
+      validateDocument({ "extra.b": 1, "extra.c.d": 2 }, loose).valid,
+    ).toBe(true);
+    expect(validateDocument({ "extra.a": "x" }, loose).valid).toBe(false);
+    expect(validateDocument({ note: "x" }, loose).valid).toBe(false);
+  });
+
+  it("requires whole subdocuments unless `mode: 'partial'` is passed", () => {
+    const payload = { address: { city: "Lagos" } };
+
+    expect(validateDocument(payload, setSchema).valid).toBe(false);
+    expect(
+      validateDocument(
+        payload,
+        zodToMongoSetSchema(orderSchema, { mode: "partial" }),
+      ).valid,
+    ).toBe(true);
+  });
+});
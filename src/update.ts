@@ -0,0 +1,179 @@
+import type * as z4 from "zod/v4/core";
+
+import zodToMongoSchema, { type ZodToMongoSchemaOptions } from "./index.js";
+import { escapeRegExp } from "./pattern.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * A path reachable with dot notation, as a literal key until it goes through
+ * an array index or a record key, and as a pattern after.
+ *
+ * @internal
+ */
+interface DottedPath {
+  key: string;
+  pattern: string;
+  literal: boolean;
+}
+
+/**
+ * A positional operator: `$` (the first matched element), `$[]` (every
+ * element) or `$[<identifier>]` (the elements matched by `arrayFilters`).
+ */
+const POSITIONAL_PATTERN = String.raw`\$(?:\[(?:[a-z][\dA-Za-z]*)?\])?`;
+
+/**
+ * Whether an object accepts keys it doesn't list, with any value (e.g.
+ * `z.looseObject()`, or any object with `unknownKeys: "passthrough"`).
+ *
+ * @internal
+ */
+function _acceptsUnknownKeys({
+  properties,
+  additionalProperties,
+}: MongoSchema) {
+  return (
+    properties !== undefined &&
+    (additionalProperties === undefined ||
+      additionalProperties === true ||
+      (typeof additionalProperties === "object" &&
+        Object.keys(additionalProperties).length === 0))
+  );
+}
+
+/** @internal */
+function _appendPath(
+  path: DottedPath | undefined,
+  key: string,
+  pattern: string,
+  literal: boolean,
+): DottedPath {
+  if (!path) return { key, pattern, literal };
+
+  return {
+    key: `${path.key}.${key}`,
+    pattern: String.raw`${path.pattern}\.${pattern}`,
+    literal: path.literal && literal,
+  };
+}
+
+/**
+ * Collects the schema of every path below `schema` that `$set` can reach.
+ *
+ * @internal
+ */
+function _collectPaths(
+  schema: MongoSchema,
+  path: DottedPath | undefined,
+  paths: Map<string, { path: DottedPath; schemas: MongoSchema[] }>,
+) {
+  const add = (next: DottedPath, nextSchema: MongoSchema) => {
+    const id = next.literal ? next.key : next.pattern;
+    const entry = paths.get(id) ?? { path: next, schemas: [] };
+    entry.schemas.push(nextSchema);
+    paths.set(id, entry);
+    _collectPaths(nextSchema, next, paths);
+  };
+
+  // Nullable and union fields have paths in each of their options
+  for (const option of [...(schema.anyOf ?? []), ...(schema.oneOf ?? [])]) {
+    _collectPaths(option, path, paths);
+  }
+
+  for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+    add(_appendPath(path, key, escapeRegExp(key), true), propertySchema);
+  }
+
+  // Unknown fields of nested objects can be set to anything, including
+  // through their own dotted paths
+  const acceptsUnknownKeys = _acceptsUnknownKeys(schema);
+  if (path && acceptsUnknownKeys) {
+    add(_appendPath(path, "*", ".+", false), {});
+  }
+
+  // Record keys aren't checked in dotted paths, only the values
+  const valueSchemas = [
+    ...Object.values(schema.patternProperties ?? {}),
+    ...(typeof schema.additionalProperties === "object" && !acceptsUnknownKeys
+      ? [schema.additionalProperties]
+      : []),
+  ];
+  for (const valueSchema of valueSchemas) {
+    add(_appendPath(path, "*", "[^.]+", false), valueSchema);
+  }
+
+  // Array elements are reached by index (e.g. `items.0.qty`) or by a
+  // positional operator (e.g. `items.$.qty` or `items.$[elem].qty`)
+  if (Array.isArray(schema.items)) {
+    for (const [index, itemSchema] of schema.items.entries()) {
+      add(_appendPath(path, String(index), String(index), true), itemSchema);
+      add(_appendPath(path, "$", POSITIONAL_PATTERN, false), itemSchema);
+    }
+  } else if (schema.items) {
+    const pattern = String.raw`(?:\d+|${POSITIONAL_PATTERN})`;
+    add(_appendPath(path, "$", pattern, false), schema.items);
+  }
+}
+
+/**
+ * Converts a Zod object schema to a MongoDB-compatible JSON Schema that
+ * validates `$set` payloads, whose keys are dotted paths into the document
+ * (e.g. `"address.city"`, `"items.0.qty"` or `"items.$[elem].qty"`). Each
+ * path is validated against the schema of the field it sets, and unknown
+ * paths are rejected, unless they're in an object that accepts unknown keys
+ * (e.g. with `unknownKeys: "passthrough"`). `_id` is always rejected, since
+ * MongoDB doesn't allow changing it.
+ *
+ * Setting a whole subdocument (e.g. `"address"`) replaces it, so it must be
+ * complete, unless `mode: "partial"` is passed.
+ *
+ * @param zodSchema The Zod schema of the whole document.
+ * @param options Optional configuration for the conversion.
+ * @returns A MongoDB-compatible JSON Schema for `$set` payloads.
+ *
+ * @example
+ * import z from "zod";
+ * import { validateDocument, zodToMongoSetSchema } from "zod-to-mongo-schema";
+ *
+ * const setSchema = zodToMongoSetSchema(userSchema);
+ * const { valid, issues } = validateDocument(update.$set, setSchema);
+ */
+export function zodToMongoSetSchema(
+  zodSchema: z4.$ZodType,
+  options: ZodToMongoSchemaOptions = {},
+): MongoSchema {
+  const mongoSchema = zodToMongoSchema(zodSchema, options);
+  const paths = new Map<string, { path: DottedPath; schemas: MongoSchema[] }>();
+  _collectPaths(mongoSchema, undefined, paths);
+
+  // Rejected even where a record's keys, or unknown keys, would match it
+  const properties: Record<string, MongoSchema> = { _id: { not: {} } };
+  const patternProperties: Record<string, MongoSchema> = {};
+  const acceptsUnknownKeys = _acceptsUnknownKeys(mongoSchema);
+  if (acceptsUnknownKeys) patternProperties[String.raw`^_id\.`] = { not: {} };
+
+  for (const { path, schemas } of paths.values()) {
+    if (path.key === "_id" || path.key.startsWith("_id.")) continue;
+
+    const unique = schemas.filter(
+      (schema, index) =>
+        schemas.findIndex(
+          (other) => JSON.stringify(other) === JSON.stringify(schema),
+        ) === index,
+    );
+    const schema = unique.length === 1 ? unique[0]! : { anyOf: unique };
+
+    if (path.literal) {
+      properties[path.key] = schema;
+    } else {
+      patternProperties[`^${path.pattern}$`] = schema;
+    }
+  }
+
+  return {
+    type: "object",
+    properties,
+    ...(Object.keys(patternProperties).length > 0 ? { patternProperties } : {}),
+    ...(acceptsUnknownKeys ? {} : { additionalProperties: false }),
+  };
+}
@@ -0,0 +1,255 @@
+import { describe, expect, it } from "vitest";
+import z from "zod";
+
+import zodToMongoSchema from "./index.js";
+import { validateDocument } from "./validate.js";
+import type { MongoSchema } from "./zod.js";
+
+/** Minimal stand-ins for `bson` classes, recognized by `_bsontype` */
+const objectId = (hex: string) => ({
+  _bsontype: "ObjectId",
+  toHexString: () => hex,
+});
+const decimal128 = (value: string) => ({
+  _bsontype: "Decimal128",
+  toString: () => value,
+});
+const long = (value: bigint) => ({
+  _bsontype: "Long",
+  toBigInt: () => value,
+});
+const binary = (bytes: number[]) => ({
+  _bsontype: "Binary",
+  buffer: new Uint8Array(bytes),
+});
+
+describe("validateDocument", () => {
+  it("accepts documents that match the schema", () => {
+    const schema = zodToMongoSchema(
+      z.object({
+        _id: z.unknown().meta({ bsonType: "objectId" }),
+        name: z.string().min(1),
+        age: z.int32().min(0),
+        tags: z.array(z.string()),
+        createdAt: z.date(),
+      }),
+    );
+
+    const result = validateDocument(
+      {
+        _id: objectId("64b7f0c2a1b2c3d4e5f60718"),
+        name: "John",
+        age: 30,
+        tags: ["admin"],
+        createdAt: new Date(),
+      },
+      schema,
+    );
+
+    expect(result).toEqual({ valid: true, issues: [] });
+  });
+
+  it("reports issues with their paths", () => {
+    const schema = zodToMongoSchema(
+      z.object({
+        name: z.string(),
+        items: z.array(z.object({ sku: z.string(), qty: z.int32().min(1) })),
+      }),
+    );
+
+    const result = validateDocument(
+      {
+        items: [
+          { sku: "a", qty: 1 },
+          { sku: 2, qty: 0 },
+        ],
+        extra: true,
+      },
+      schema,
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        path: ["name"],
+        keyword: "required",
+        message: 'Missing required field "name"',
+      },
+      {
+        path: ["items", 1, "sku"],
+        keyword: "type",
+        message: 'Expected type "string", received "int"',
+      },
+      {
+        path: ["items", 1, "qty"],
+        keyword: "minimum",
+        message: "Expected a number >= 1",
+      },
+      {
+        path: ["extra"],
+        keyword: "additionalProperties",
+        message: 'Unexpected field "extra"',
+      },
+    ]);
+  });
+
+  it("distinguishes `int`, `long`, `double` and `decimal`", () => {
+    const schema = zodToMongoSchema(
+      z.object({
+        int: z.int32(),
+        long: z.int(),
+        double: z.float64(),
+        decimal: z.unknown().meta({ bsonType: "decimal" }),
+        number: z.number(),
+      }),
+    );
+
+    const valid = {
+      int: 1,
+      long: long(2n ** 40n),
+      double: 1.5,
+      decimal: decimal128("1.23"),
+      number: 2n,
+    };
+    expect(validateDocument(valid, schema).valid).toBe(true);
+
+    // Zod accepts all of these, but the driver stores them with other types
+    const mismatched = { ...valid, int: 2 ** 40, long: 1, double: 1 };
+    expect(
+      validateDocument(mismatched, schema).issues.map((issue) => issue.path),
+    ).toEqual([["int"], ["long"], ["double"]]);
+  });
+
+  it("recognizes BSON values by duck-typing `_bsontype`", () => {
+    const schema = zodToMongoSchema(
+      z.object({
+        id: z.unknown().meta({ bsonType: "objectId" }),
+        data: z.unknown().meta({ bsonType: "binData" }),
+        bytes: z.unknown().meta({ bsonType: "binData" }),
+        regex: z.unknown().meta({ bsonType: "regex" }),
+      }),
+    );
+
+    const document = {
+      id: objectId("64b7f0c2a1b2c3d4e5f60718"),
+      data: binary([1, 2, 3]),
+      bytes: new Uint8Array([1, 2, 3]),
+      regex: /abc/,
+    };
+    expect(validateDocument(document, schema).valid).toBe(true);
+
+    const result = validateDocument(
+      { ...document, id: "64b7f0c2a1b2c3d4e5f60718" },
+      schema,
+    );
+    expect(result.issues).toEqual([
+      {
+        path: ["id"],
+        keyword: "bsonType",
+        message: 'Expected bsonType "objectId", received "string"',
+      },
+    ]);
+  });
+
+  it("validates string, array and object keywords", () => {
+    const schema = zodToMongoSchema(
+      z.object({
+        slug: z.string().regex(/^[a-z-]+$/),
+        emoji: z.string().max(2),
+        tags: z.array(z.string()).min(1).max(2),
+        metadata: z.record(z.string(), z.number()),
+      }),
+    );
+
+    expect(
+      validateDocument(
+        { slug: "a-b", emoji: "👋🏽", tags: ["a"], metadata: { a: 1 } },
+        schema,
+      ).valid,
+    ).toBe(true);
+
+    const result = validateDocument(
+      { slug: "A B", emoji: "abc", tags: [], metadata: { a: "1" } },
+      schema,
+    );
+    expect(
+      result.issues.map(({ path, keyword }) => ({ path, keyword })),
+    ).toEqual([
+      { path: ["slug"], keyword: "pattern" },
+      { path: ["emoji"], keyword: "maxLength" },
+      { path: ["tags"], keyword: "minItems" },
+      { path: ["metadata", "a"], keyword: "type" },
+    ]);
+  });
+
+  it("validates PCRE patterns", () => {
+    const schema = zodToMongoSchema(
+      z.object({ name: z.string().regex(/^caf\u00E9$/i) }),
+    );
+
+    expect(schema.properties?.name?.pattern).toBe(String.raw`(?i)^caf\x{E9}$`);
+    expect(validateDocument({ name: "CAFÉ" }, schema).valid).toBe(true);
+    expect(validateDocument({ name: "cafe" }, schema).valid).toBe(false);
+  });
+
+  it("validates `enum`, `uniqueItems` and numeric `multipleOf`", () => {
+    const schema: MongoSchema = {
+      properties: {
+        status: { enum: ["active", "inactive", 1] },
+        ids: { bsonType: "array", uniqueItems: true },
+        step: { bsonType: "number", multipleOf: 5 },
+      },
+    };
+
+    expect(
+      validateDocument(
+        { status: 1n, ids: [1, 2, [1]], step: long(10n) },
+        schema,
+      ).valid,
+    ).toBe(true);
+
+    const result = validateDocument(
+      { status: "deleted", ids: [1, 1n], step: 7 },
+      schema,
+    );
+    expect(result.issues.map((issue) => issue.keyword)).toEqual([
+      "enum",
+      "uniqueItems",
+      "multipleOf",
+    ]);
+  });
+
+  it("validates composition keywords", () => {
+    const schema = zodToMongoSchema(
+      z.object({
+        id: z.unknown().meta({ bsonType: "objectId" }).nullable(),
+        value: z.union([z.string(), z.literal(1)]),
+      }),
+    );
+
+    // eslint-disable-next-line unicorn/no-null
+    expect(validateDocument({ id: null, value: 1 }, schema).valid).toBe(true);
+    // eslint-disable-next-line unicorn/no-null
+    expect(validateDocument({ id: null, value: true }, schema).issues).toEqual([
+      {
+        path: ["value"],
+        keyword: "anyOf",
+        message: "Expected value to match at least one schema",
+      },
+    ]);
+  });
+
+  it("treats `undefined` fields like the driver does", () => {
+    const schema = zodToMongoSchema(z.object({ bio: z.string().optional() }));
+
+    // Zod accepts an explicit `undefined`, but the driver stores it as `null`
+    expect(
+      z.object({ bio: z.string().optional() }).safeParse({ bio: undefined }),
+    ).toMatchObject({ success: true });
+    expect(validateDocument({ bio: undefined }, schema).valid).toBe(false);
+    expect(
+      validateDocument({ bio: undefined }, schema, { ignoreUndefined: true })
+        .valid,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,397 @@
+import { bsonEquals, bsonNumericValue, bsonTypeOf } from "./bson.js";
+import { fromPcrePattern } from "./pattern.js";
+import type { MongoSchema } from "./zod.js";
+
+/**
+ * Options for validating a document against a `MongoSchema`.
+ */
+export interface ValidateDocumentOptions {
+  /**
+   * Mirrors the driver's `ignoreUndefined` option. When `false` (default),
+   * `undefined` fields are validated as `null`, since that's how the driver
+   * stores them. When `true`, they're treated as missing.
+   *
+   * @default false
+   */
+  ignoreUndefined?: boolean;
+}
+
+/**
+ * A single reason a document doesn't match a `MongoSchema`.
+ */
+export interface DocumentValidationIssue {
+  /** The path to the offending value, e.g. `["items", 0, "qty"]`. */
+  path: (string | number)[];
+  /** The JSON Schema keyword that wasn't satisfied. */
+  keyword: string;
+  message: string;
+}
+
+/**
+ * The result of validating a document against a `MongoSchema`.
+ */
+export interface DocumentValidationResult {
+  valid: boolean;
+  issues: DocumentValidationIssue[];
+}
+
+/** JSON Schema `type` → BSON types it matches */
+const JSON_TYPES: Record<string, readonly string[]> = {
+  object: ["object"],
+  array: ["array"],
+  number: ["double", "int", "long", "decimal"],
+  boolean: ["bool"],
+  string: ["string"],
+  null: ["null"],
+};
+
+/** Cache of compiled `pattern`s, since the same schema validates many values */
+const PATTERN_CACHE = new Map<string, RegExp>();
+
+/** @internal */
+function _compilePattern(pattern: string): RegExp {
+  const cached = PATTERN_CACHE.get(pattern);
+  if (cached) return cached;
+
+  const compiled = fromPcrePattern(pattern);
+  if (!compiled) {
+    throw new SyntaxError(`Invalid regular expression: /${pattern}/`);
+  }
+
+  PATTERN_CACHE.set(pattern, compiled);
+  return compiled;
+}
+
+/** @internal */
+function _matchesType(value: unknown, types: string | string[]): boolean {
+  const bsonType = bsonTypeOf(value);
+  return [types]
+    .flat()
+    .some((type) =>
+      type === "number"
+        ? JSON_TYPES.number!.includes(bsonType)
+        : type === bsonType || JSON_TYPES[type]?.includes(bsonType),
+    );
+}
+
+/** @internal */
+function _describe(types: string | string[]): string {
+  return [types]
+    .flat()
+    .map((type) => `"${type}"`)
+    .join(" | ");
+}
+
+/** @internal */
+function _isMultipleOf(value: number | bigint, divisor: number): boolean {
+  if (typeof value === "bigint" && Number.isInteger(divisor)) {
+    return value % BigInt(divisor) === 0n;
+  }
+
+  return Number.isInteger(Number(value) / divisor);
+}
+
+/** @internal */
+function _validate(
+  value: unknown,
+  schema: MongoSchema,
+  path: (string | number)[],
+  options: ValidateDocumentOptions,
+): DocumentValidationIssue[] {
+  const issues: DocumentValidationIssue[] = [];
+  const fail = (keyword: string, message: string, at = path) =>
+    issues.push({ path: at, keyword, message });
+
+  if (schema.type !== undefined && !_matchesType(value, schema.type)) {
+    fail(
+      "type",
+      `Expected type ${_describe(schema.type)}, received "${bsonTypeOf(value)}"`,
+    );
+    // Without the right type, the remaining keywords don't say much
+    return issues;
+  }
+
+  if (schema.bsonType !== undefined && !_matchesType(value, schema.bsonType)) {
+    fail(
+      "bsonType",
+      `Expected bsonType ${_describe(schema.bsonType)}, received "${bsonTypeOf(value)}"`,
+    );
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.some((option) => bsonEquals(value, option))) {
+    fail(
+      "enum",
+      `Expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+    );
+  }
+
+  // Numeric keywords
+  const number = bsonNumericValue(value);
+  if (number !== undefined) {
+    if (schema.minimum !== undefined) {
+      const tooSmall = schema.exclusiveMinimum
+        ? number <= schema.minimum
+        : number < schema.minimum;
+      if (tooSmall) {
+        fail(
+          "minimum",
+          `Expected a number ${schema.exclusiveMinimum ? ">" : ">="} ${schema.minimum}`,
+        );
+      }
+    }
+
+    if (schema.maximum !== undefined) {
+      const tooBig = schema.exclusiveMaximum
+        ? number >= schema.maximum
+        : number > schema.maximum;
+      if (tooBig) {
+        fail(
+          "maximum",
+          `Expected a number ${schema.exclusiveMaximum ? "<" : "<="} ${schema.maximum}`,
+        );
+      }
+    }
+
+    if (
+      schema.multipleOf !== undefined &&
+      !_isMultipleOf(number, schema.multipleOf)
+    ) {
+      fail("multipleOf", `Expected a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  // String keywords
+  if (typeof value === "string") {
+    // MongoDB counts code points, not UTF-16 code units
+    const length = [...value].length;
+
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      fail(
+        "minLength",
+        `Expected at least ${schema.minLength} characters, received ${length}`,
+      );
+    }
+
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      fail(
+        "maxLength",
+        `Expected at most ${schema.maxLength} characters, received ${length}`,
+      );
+    }
+
+    if (
+      schema.pattern !== undefined &&
+      !_compilePattern(schema.pattern).test(value)
+    ) {
+      fail("pattern", `Expected a string matching /${schema.pattern}/`);
+    }
+  }
+
+  // Array keywords
+  if (Array.isArray(value)) {
+    // The driver stores `undefined` array elements as `null`
+    // eslint-disable-next-line unicorn/no-null
+    const elements = value.map((element) => element ?? null);
+
+    if (schema.minItems !== undefined && elements.length < schema.minItems) {
+      fail("minItems", `Expected at least ${schema.minItems} items`);
+    }
+
+    if (schema.maxItems !== undefined && elements.length > schema.maxItems) {
+      fail("maxItems", `Expected at most ${schema.maxItems} items`);
+    }
+
+    if (schema.uniqueItems) {
+      const duplicate = elements.findIndex((element, index) =>
+        elements.slice(0, index).some((other) => bsonEquals(element, other)),
+      );
+      if (duplicate !== -1) {
+        fail("uniqueItems", `Expected unique items, item ${duplicate} repeats`);
+      }
+    }
+
+    if (Array.isArray(schema.items)) {
+      const tuple = schema.items;
+      for (const [index, element] of elements.entries()) {
+        const itemSchema = tuple[index] ?? schema.additionalItems;
+
+        if (itemSchema === false) {
+          fail("additionalItems", `Expected at most ${tuple.length} items`, [
+            ...path,
+            index,
+          ]);
+        } else if (itemSchema && itemSchema !== true) {
+          issues.push(
+            ..._validate(element, itemSchema, [...path, index], options),
+          );
+        }
+      }
+    } else if (schema.items) {
+      for (const [index, element] of elements.entries()) {
+        issues.push(
+          ..._validate(element, schema.items, [...path, index], options),
+        );
+      }
+    }
+  }
+
+  // Object keywords
+  if (bsonTypeOf(value) === "object") {
+    const fields = new Map<string, unknown>();
+    for (const [key, fieldValue] of Object.entries(value as object)) {
+      if (fieldValue === undefined) {
+        // eslint-disable-next-line unicorn/no-null
+        if (!options.ignoreUndefined) fields.set(key, null);
+      } else {
+        fields.set(key, fieldValue);
+      }
+    }
+
+    if (
+      schema.minProperties !== undefined &&
+      fields.size < schema.minProperties
+    ) {
+      fail("minProperties", `Expected at least ${schema.minProperties} fields`);
+    }
+
+    if (
+      schema.maxProperties !== undefined &&
+      fields.size > schema.maxProperties
+    ) {
+      fail("maxProperties", `Expected at most ${schema.maxProperties} fields`);
+    }
+
+    for (const key of schema.required ?? []) {
+      if (!fields.has(key)) {
+        fail("required", `Missing required field "${key}"`, [...path, key]);
+      }
+    }
+
+    for (const [key, dependency] of Object.entries(schema.dependencies ?? {})) {
+      if (!fields.has(key)) continue;
+
+      if (Array.isArray(dependency)) {
+        for (const dependentKey of dependency) {
+          if (!fields.has(dependentKey)) {
+            fail(
+              "dependencies",
+              `Field "${key}" requires field "${dependentKey}"`,
+              [...path, dependentKey],
+            );
+          }
+        }
+      } else {
+        issues.push(..._validate(value, dependency, path, options));
+      }
+    }
+
+    const patternProperties = Object.entries(schema.patternProperties ?? {});
+
+    for (const [key, fieldValue] of fields) {
+      const fieldPath = [...path, key];
+      let matched = false;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema && Object.hasOwn(schema.properties!, key)) {
+        matched = true;
+        issues.push(
+          ..._validate(fieldValue, propertySchema, fieldPath, options),
+        );
+      }
+
+      for (const [pattern, patternSchema] of patternProperties) {
+        if (!_compilePattern(pattern).test(key)) continue;
+
+        matched = true;
+        issues.push(
+          ..._validate(fieldValue, patternSchema, fieldPath, options),
+        );
+      }
+
+      if (matched) continue;
+
+      if (schema.additionalProperties === false) {
+        fail("additionalProperties", `Unexpected field "${key}"`, fieldPath);
+      } else if (
+        schema.additionalProperties &&
+        schema.additionalProperties !== true
+      ) {
+        issues.push(
+          ..._validate(
+            fieldValue,
+            schema.additionalProperties,
+            fieldPath,
+            options,
+          ),
+        );
+      }
+    }
+  }
+
+  // Composition keywords
+  for (const subschema of schema.allOf ?? []) {
+    issues.push(..._validate(value, subschema, path, options));
+  }
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(
+      (subschema) => _validate(value, subschema, path, options).length === 0,
+    );
+    if (!matches) fail("anyOf", "Expected value to match at least one schema");
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      (subschema) => _validate(value, subschema, path, options).length === 0,
+    ).length;
+    if (matches !== 1) {
+      fail(
+        "oneOf",
+        `Expected value to match exactly one schema, matched ${matches}`,
+      );
+    }
+  }
+
+  if (schema.not && _validate(value, schema.not, path, options).length === 0) {
+    fail("not", "Expected value not to match the schema in `not`");
+  }
+
+  return issues;
+}
+
+/**
+ * Validates a document against a `MongoSchema` without a MongoDB server.
+ *
+ * Values are checked with MongoDB's semantics, rather than JSON's: `number`s
+ * are `int` when they're 32-bit integers and `double` otherwise, `bigint`s
+ * are `long`, `Date`s are `date`, and so on. Values from the `bson` package
+ * (e.g. `ObjectId`, `Decimal128`, `Long`) are recognized by their
+ * `_bsontype` tag, so the package doesn't need to be installed.
+ *
+ * @param document The document to validate.
+ * @param schema The `MongoSchema` to validate against, e.g. from `zodToMongoSchema`.
+ * @param options Optional configuration for the validation.
+ * @returns Whether the document is valid, and why not if it isn't.
+ *
+ * @example
+ * import z from "zod";
+ * import zodToMongoSchema, { validateDocument } from "zod-to-mongo-schema";
+ *
+ * const userSchema = z.object({ name: z.string(), age: z.int32() });
+ * const mongoSchema = zodToMongoSchema(userSchema);
+ *
+ * validateDocument({ name: "John", age: 1.5 }, mongoSchema);
+ * // {
+ * //   valid: false,
+ * //   issues: [{ path: ["age"], keyword: "bsonType", message: "..." }],
+ * // }
+ */
+export function validateDocument(
+  document: unknown,
+  schema: MongoSchema,
+  options: ValidateDocumentOptions = {},
+): DocumentValidationResult {
+  const issues = _validate(document, schema, [], options);
+  return { valid: issues.length === 0, issues };
+}
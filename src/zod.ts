@@ -14,6 +14,7 @@ type MongoBSONType =
   | "regex"
   | "javascript"
   | "int"
+  | "timestamp"
   | "long"
   | "decimal"
   | "number";
@@ -67,9 +68,101 @@ interface MongoSchema {
   uniqueItems?: boolean;
 }
 
+/**
+ * The kind of index on a field: `1`/`-1` for ascending/descending
+ */
+type MongoIndexType = 1 | -1 | "text" | "2dsphere";
+
+/**
+ * An index on one or more fields, declared on the object schema containing
+ * them
+ * @see https://www.mongodb.com/docs/manual/reference/command/createIndexes/
+ */
+interface MongoIndexDeclaration {
+  /** The indexed fields, as dotted paths relative to the object */
+  key: Record<string, MongoIndexType>;
+  /** Defaults to the fields and types joined by `_`, e.g. `name_1_age_-1` */
+  name?: string;
+  unique?: boolean;
+  sparse?: boolean;
+  expireAfterSeconds?: number;
+}
+
+/**
+ * Index hints, read by `zodToMongoIndexes` and left out of the `$jsonSchema`
+ */
+interface MongoIndexMeta {
+  /** Indexes the field. `true` is the same as `1`. */
+  index?: true | MongoIndexType;
+  /** Indexes the field, rejecting duplicate values */
+  unique?: boolean;
+  /** Indexes the field, skipping documents without it */
+  sparse?: boolean;
+  /** Indexes the (date) field, deleting documents after this many seconds */
+  expireAfterSeconds?: number;
+  /** Indexes on fields of this object, e.g. compound indexes */
+  indexes?: MongoIndexDeclaration[];
+}
+
+/**
+ * A query type of a Queryable Encryption field
+ * @see https://www.mongodb.com/docs/manual/core/queryable-encryption/reference/supported-operations/
+ */
+interface MongoEncryptedQuery {
+  queryType: "equality" | "range";
+  contention?: number;
+  min?: unknown;
+  max?: unknown;
+  sparsity?: number;
+  precision?: number;
+  trimFactor?: number;
+}
+
+/**
+ * How a field is encrypted, read by `zodToEncryptedFields` and
+ * `zodToEncryptionSchema`
+ */
+interface MongoEncryptMeta {
+  /**
+   * The queries the field supports. Omit it for fields that are never
+   * queried, which are encrypted with a random algorithm.
+   */
+  queries?:
+    | "equality"
+    | "range"
+    | MongoEncryptedQuery
+    | readonly MongoEncryptedQuery[];
+  /**
+   * The id of the field's data encryption key, e.g. a UUID `Binary`. Without
+   * it, `createEncryptedCollection` creates one for Queryable Encryption, and
+   * client-side field level encryption uses the schema's `keyId`.
+   */
+  keyId?: unknown;
+}
+
 declare module "zod/v4/core" {
-  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
-  interface GlobalMeta extends MongoSchema {}
+  interface GlobalMeta extends MongoSchema, MongoIndexMeta {
+    /**
+     * Encrypts the field. Its `$jsonSchema` becomes `{ bsonType: "binData" }`,
+     * as it's stored encrypted. `true` is the same as `{}`.
+     */
+    encrypt?: true | MongoEncryptMeta;
+
+    /**
+     * Whether the object accepts unknown fields, in place of the
+     * `unknownKeys` option. Only applies to this object, not the objects
+     * inside it.
+     */
+    unknownKeys?: "strict" | "strip" | "passthrough";
+  }
 }
 
-export type { MongoSchema };
+export type {
+  MongoBSONType,
+  MongoEncryptedQuery,
+  MongoEncryptMeta,
+  MongoIndexDeclaration,
+  MongoIndexMeta,
+  MongoIndexType,
+  MongoSchema,
+};